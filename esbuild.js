@@ -1,11 +1,14 @@
 const esbuild = require('esbuild');
+const fs = require('fs');
 
 const watch = process.argv.includes('--watch');
+const test = process.argv.includes('--test');
 
 const buildOptions = {
-  entryPoints: ['src/extension.ts'],
+  // stdio-bridge.js is launched by stdio-only MCP clients, outside of VS Code
+  entryPoints: ['src/extension.ts', 'src/stdio-bridge.ts'],
   bundle: true,
-  outfile: 'dist/extension.js',
+  outdir: 'dist',
   external: ['vscode'],
   format: 'cjs',
   platform: 'node',
@@ -13,7 +16,20 @@ const buildOptions = {
   minify: !watch,
 };
 
-if (watch) {
+// Unit tests run under node --test, outside VS Code, so 'vscode' resolves to a stub
+const testOptions = {
+  entryPoints: fs.readdirSync('test').filter(file => file.endsWith('.test.ts')).map(file => `test/${file}`),
+  bundle: true,
+  outdir: 'dist/test',
+  alias: { vscode: './test/vscode-stub.ts' },
+  format: 'cjs',
+  platform: 'node',
+  sourcemap: true,
+};
+
+if (test) {
+  esbuild.build(testOptions).catch(() => process.exit(1));
+} else if (watch) {
   esbuild.context(buildOptions).then(ctx => {
     ctx.watch();
     console.log('Watching for changes...');
@@ -0,0 +1,135 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * How a tool call ended:
+ * - 'success': the tool ran and reported success
+ * - 'failure': the tool ran but reported success: false (e.g. debugger not paused)
+ * - 'error': the tool threw
+ * - 'rejected': the call never ran (invalid arguments, another client holds control)
+ * - 'cancelled': the client cancelled the request
+ */
+export type AuditOutcome = 'success' | 'failure' | 'error' | 'rejected' | 'cancelled';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+    timestamp: string;
+    clientSessionId: string;
+    clientName?: string;
+    tool: string;
+    arguments: any;
+    outcome: AuditOutcome;
+    durationMs: number;
+    result?: string;
+    error?: string;
+}
+
+/**
+ * Audit Log - append-only JSONL record of every tool call made by AI clients.
+ * The file rotates when it grows too large: audit.jsonl -> audit.1.jsonl -> audit.2.jsonl ...
+ */
+export class AuditLog {
+    private static instance: AuditLog;
+
+    private logDir: string | null = null;
+
+    private static readonly FILE_NAME = 'audit.jsonl';
+    private static readonly MAX_FILE_BYTES = 5 * 1024 * 1024;
+    private static readonly MAX_ROTATED_FILES = 3;
+    private static readonly MAX_SUMMARY_LENGTH = 500;
+
+    private constructor() {}
+
+    static getInstance(): AuditLog {
+        if (!AuditLog.instance) {
+            AuditLog.instance = new AuditLog();
+        }
+        return AuditLog.instance;
+    }
+
+    /**
+     * Set the directory the log is written to (nothing is recorded until this is called)
+     */
+    configure(logDir: string): void {
+        this.logDir = logDir;
+        logger.info(`[Audit Log] Writing tool calls to ${this.getLogPath()}`);
+    }
+
+    /**
+     * Path of the current log file, or null when not configured
+     */
+    getLogPath(): string | null {
+        return this.logDir ? path.join(this.logDir, AuditLog.FILE_NAME) : null;
+    }
+
+    /**
+     * Append an entry to the log
+     */
+    record(entry: AuditEntry): void {
+        const logPath = this.getLogPath();
+        if (!logPath) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(this.logDir!, { recursive: true });
+            this.rotateIfNeeded(logPath);
+            fs.appendFileSync(logPath, JSON.stringify(entry) + '\n', 'utf-8');
+        } catch (error) {
+            // Auditing must never break the tool call itself
+            logger.error('[Audit Log] Error writing audit entry:', error);
+        }
+    }
+
+    /**
+     * Short, single-line summary of a tool result for the log
+     */
+    static summarize(result: any): string {
+        const text = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+        return text.length > AuditLog.MAX_SUMMARY_LENGTH
+            ? `${text.slice(0, AuditLog.MAX_SUMMARY_LENGTH)}...`
+            : text;
+    }
+
+    /**
+     * Shift the rotated files along and start a new log when the current one is full
+     */
+    private rotateIfNeeded(logPath: string): void {
+        if (!fs.existsSync(logPath) || fs.statSync(logPath).size < AuditLog.MAX_FILE_BYTES) {
+            return;
+        }
+
+        const rotatedPath = (index: number) => path.join(this.logDir!, `audit.${index}.jsonl`);
+        for (let index = AuditLog.MAX_ROTATED_FILES - 1; index >= 1; index--) {
+            if (fs.existsSync(rotatedPath(index))) {
+                fs.renameSync(rotatedPath(index), rotatedPath(index + 1));
+            }
+        }
+        fs.renameSync(logPath, rotatedPath(1));
+        logger.info('[Audit Log] Rotated audit log');
+    }
+}
+
+// Export singleton instance
+export const auditLog = AuditLog.getInstance();
@@ -0,0 +1,67 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Cancellation helpers for in-flight MCP requests (notifications/cancelled)
+ */
+
+/**
+ * Thrown when a request is cancelled by the client
+ */
+export class CancelledError extends Error {
+    constructor(reason?: string) {
+        super(reason ? `Request cancelled: ${reason}` : 'Request cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new CancelledError(signal.reason);
+    }
+}
+
+/**
+ * Settle with the promise, or reject with CancelledError as soon as the signal is aborted
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(new CancelledError(signal.reason));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new CancelledError(signal.reason));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
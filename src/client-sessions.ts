@@ -0,0 +1,153 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as crypto from 'crypto';
+import { logger } from './logger';
+
+/**
+ * A connected MCP client, identified by the Mcp-Session-Id header
+ */
+export interface ClientSession {
+    id: string;
+    clientName: string;
+    clientVersion?: string;
+    createdAt: number;
+    lastSeen: number;
+}
+
+/**
+ * Client Session Manager - tracks MCP clients connected to this server
+ */
+export class ClientSessionManager {
+    private static instance: ClientSessionManager;
+
+    private sessions: Map<string, ClientSession> = new Map();
+    private closeListeners: Array<(sessionId: string) => void> = [];
+
+    // Sessions idle this long are dropped when new ones are created
+    private static readonly IDLE_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+    private constructor() {}
+
+    static getInstance(): ClientSessionManager {
+        if (!ClientSessionManager.instance) {
+            ClientSessionManager.instance = new ClientSessionManager();
+        }
+        return ClientSessionManager.instance;
+    }
+
+    /**
+     * Create a session for a client that just sent initialize
+     */
+    create(clientInfo?: { name?: string; version?: string }): ClientSession {
+        this.pruneIdleSessions();
+
+        const now = Date.now();
+        const session: ClientSession = {
+            id: crypto.randomUUID(),
+            clientName: clientInfo?.name || 'unknown',
+            clientVersion: clientInfo?.version,
+            createdAt: now,
+            lastSeen: now
+        };
+        this.sessions.set(session.id, session);
+        logger.info(`[Client Sessions] Session ${session.id} created for ${session.clientName} (${this.sessions.size} active)`);
+        return session;
+    }
+
+    /**
+     * Get a session by id
+     */
+    get(sessionId: string): ClientSession | undefined {
+        return this.sessions.get(sessionId);
+    }
+
+    /**
+     * Record activity on a session
+     */
+    touch(sessionId: string): void {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            session.lastSeen = Date.now();
+        }
+    }
+
+    /**
+     * End a session (client sent DELETE or went away)
+     */
+    delete(sessionId: string): boolean {
+        if (!this.sessions.delete(sessionId)) {
+            return false;
+        }
+        logger.info(`[Client Sessions] Session ${sessionId} closed (${this.sessions.size} active)`);
+        for (const listener of this.closeListeners) {
+            listener(sessionId);
+        }
+        return true;
+    }
+
+    /**
+     * End every session (server stopping)
+     */
+    clear(): void {
+        for (const sessionId of Array.from(this.sessions.keys())) {
+            this.delete(sessionId);
+        }
+    }
+
+    /**
+     * Get all sessions
+     */
+    list(): ClientSession[] {
+        return Array.from(this.sessions.values());
+    }
+
+    /**
+     * Number of active sessions
+     */
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Register a callback for when a session ends
+     */
+    onDidCloseSession(listener: (sessionId: string) => void): { dispose(): void } {
+        this.closeListeners.push(listener);
+        return {
+            dispose: () => {
+                this.closeListeners = this.closeListeners.filter(l => l !== listener);
+            }
+        };
+    }
+
+    /**
+     * Drop sessions of clients that disappeared without sending DELETE
+     */
+    private pruneIdleSessions(): void {
+        const now = Date.now();
+        for (const session of this.list()) {
+            if (now - session.lastSeen > ClientSessionManager.IDLE_EXPIRY_MS) {
+                this.delete(session.id);
+            }
+        }
+    }
+}
+
+// Export singleton instance
+export const clientSessions = ClientSessionManager.getInstance();
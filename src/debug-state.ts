@@ -17,42 +17,36 @@
  */
 
 import * as vscode from 'vscode';
+import { logger } from './logger';
+import { SessionState, DebugEvent, SessionResult } from './session-state';
 
-/**
- * Thread state tracking
- */
-interface ThreadState {
-    id: number;
-    name: string;
-    stopped: boolean;
-    reason?: string;
-}
+export { SessionState } from './session-state';
+export type { DebugEvent, DebugEventType, SessionResult } from './session-state';
 
 /**
- * Debug state manager - tracks active debug session state
+ * Debug state manager - tracks the state of every running debug session.
+ * Each DAP session (compound launch members, child processes...) gets its own SessionState.
+ * Child sessions (multiprocessing, child_process, debugpy subProcess) form a tree under
+ * the session that spawned them, and their stops are reported to every ancestor.
  */
 export class DebugState {
     private static instance: DebugState;
 
-    sessionId: string | null = null;
-    currentFile: string | null = null;
-    currentLine: number | null = null;
-    currentFunction: string | null = null;
-    isPaused: boolean = false;
-    isInEventLoop: boolean = false; // Track if we're in event loop waiting state
-    stackFrames: any[] = [];
     breakpoints: Map<string, vscode.Breakpoint[]> = new Map();
-    
-    // Track thread states
-    private threads: Map<number, ThreadState> = new Map();
-    private mainThreadId: number | null = null;
-    
-    // Store paused frame info captured from activeStackItem
-    private pausedThreadId: number | null = null;
-    private pausedFrameId: number | null = null;
-    private pausedLine: number | null = null;
-    private pausedFunction: string | null = null;
-    private pausedFile: string | null = null;
+
+    // Running sessions by session id, in start order
+    private sessions: Map<string, SessionState> = new Map();
+
+    // Session of the last stack item VS Code focused
+    private focusedSessionId: string | null = null;
+
+    // How the most recently ended sessions finished, oldest first
+    private endedSessions: SessionResult[] = [];
+    private static readonly MAX_ENDED_SESSIONS = 10;
+
+    // Fires for DAP events of all tracked sessions
+    private debugEventEmitter = new vscode.EventEmitter<DebugEvent>();
+    readonly onDidDebugEvent: vscode.Event<DebugEvent> = this.debugEventEmitter.event;
 
     private constructor() {
         this.setupEventListeners();
@@ -69,157 +63,50 @@ export class DebugState {
      * Setup VS Code debug event listeners
      */
     private setupEventListeners() {
-        // Track active debug session changes
-        vscode.debug.onDidChangeActiveDebugSession((session) => {
-            if (session) {
-                this.sessionId = session.id;
-                this.currentFile = session.configuration.program;
-                this.isPaused = false;
-                this.isInEventLoop = false;
-                console.log(`[DEBUG] Debug session started: ${this.sessionId}`);
-                console.log(`[DEBUG] Session name: ${session.name}, type: ${session.type}`);
-                console.log(`Debug session started: ${this.sessionId}`);
-            } else {
-                console.log(`[DEBUG] Debug session ended: ${this.sessionId}`);
-                this.reset();
-                console.log('Debug session ended');
-            }
+        // Track debug sessions starting
+        vscode.debug.onDidStartDebugSession((session) => {
+            this.trackSession(session);
         });
 
-        // Track when debugger stops (hits breakpoint, steps, etc.)
-        vscode.debug.onDidReceiveDebugSessionCustomEvent((event) => {
-            console.log(`[DEBUG] Custom Event: ${event.event}, EventSessionId: ${event.session?.id}, CurrentSessionId: ${this.sessionId}, Match: ${event.session?.id === this.sessionId}`);
-            
-            if (event.session.id !== this.sessionId) {
-                console.log(`[DEBUG] Event filtered out due to session ID mismatch`);
-                return;
-            }
-
-            console.log('Debug event received:', event.event, event.body);
-
-            // Handle stopped events (breakpoint hit, step complete, pause)
-            if (event.event === 'stopped') {
-                const threadId = event.body?.threadId;
-                const reason = event.body?.reason;
-                
-                // Update thread state
-                if (threadId) {
-                    const thread = this.threads.get(threadId);
-                    if (thread) {
-                        thread.stopped = true;
-                        thread.reason = reason;
-                    } else {
-                        this.threads.set(threadId, {
-                            id: threadId,
-                            name: `Thread ${threadId}`,
-                            stopped: true,
-                            reason: reason
-                        });
+        // Track DAP events (stopped, continued, thread, output, terminated...)
+        // VS Code only forwards non-standard events through onDidReceiveDebugSessionCustomEvent,
+        // so a debug adapter tracker is needed to observe the standard ones
+        vscode.debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: (session) => ({
+                onDidSendMessage: (message: any) => {
+                    if (message?.type === 'event') {
+                        this.trackSession(session).handleDebugAdapterEvent({ event: message.event, body: message.body });
+                    } else if (message?.type === 'response' && message.command === 'initialize' && message.success) {
+                        this.trackSession(session).handleCapabilities(message.body);
                     }
-                }
-                
-                // ALWAYS set isPaused when stopped event fires
-                // Let checkIfInEventLoop decide if it should be FALSE
-                this.isPaused = true;
-                console.log(`✅ Thread ${threadId} STOPPED (${reason}) - isPaused set to TRUE`);
-                
-                // Update current position from the stopped event
-                this.updateCurrentPosition(event.session);
-            }
-            
-            // Handle continued events
-            if (event.event === 'continued') {
-                const threadId = event.body?.threadId;
-                
-                // Update thread state
-                if (threadId) {
-                    const thread = this.threads.get(threadId);
-                    if (thread) {
-                        thread.stopped = false;
-                        thread.reason = undefined;
-                    }
-                }
-                
-                // Check if main thread is continuing
-                if (threadId === this.mainThreadId || !threadId) {
-                    this.isPaused = false;
-                    this.isInEventLoop = false;
-                    console.log('▶️ Main thread CONTINUED - isPaused set to FALSE');
-                }
-            }
-            
-            // Handle thread events
-            if (event.event === 'thread') {
-                const threadId = event.body?.threadId;
-                const reason = event.body?.reason;
-                
-                if (reason === 'started') {
-                    console.log(`🧵 Thread ${threadId} started`);
-                    this.threads.set(threadId, {
-                        id: threadId,
-                        name: `Thread ${threadId}`,
-                        stopped: false
-                    });
-                    
-                    // First thread is usually the main thread
-                    if (!this.mainThreadId) {
-                        this.mainThreadId = threadId;
-                        console.log(`📌 Main thread ID: ${threadId}`);
+                },
+                // VS Code's answer to the adapter's runInTerminal request names the terminal the program runs in
+                onWillReceiveMessage: (message: any) => {
+                    if (message?.type === 'response' && message.command === 'runInTerminal' && message.success) {
+                        this.trackSession(session).handleRunInTerminal(message.body);
                     }
-                } else if (reason === 'exited') {
-                    console.log(`🧵 Thread ${threadId} exited`);
-                    this.threads.delete(threadId);
                 }
-            }
+            })
         });
 
         // Track active stack frame changes - THIS IS THE PRIMARY SOURCE for pause detection
-        // Key insight: activeStackItem has frameId ONLY when actually paused
-        // - Not paused: {session, threadId} - NO frameId
-        // - Paused: {session, threadId, frameId} - HAS frameId
         vscode.debug.onDidChangeActiveStackItem(async (stackItem) => {
-            console.log(`[DEBUG] Stack item changed: ${stackItem ? JSON.stringify(stackItem) : 'null'}`);
-            
+            logger.debug(`Stack item changed: ${stackItem ? JSON.stringify(stackItem) : 'null'}`);
+
             if (stackItem) {
-                // Check if frameId exists - this is the reliable indicator of being paused
-                const hasFrameId = 'frameId' in stackItem && (stackItem as any).frameId !== undefined;
-                
-                console.log(`[DEBUG] Stack item has frameId: ${hasFrameId}`);
-                
-                if (hasFrameId) {
-                    // Has frameId = actually paused at a specific stack frame
-                    this.isPaused = true;
-                    console.log('📍 Stack item has frameId - isPaused set to TRUE');
-                    
-                    // Extract frame info
-                    this.pausedThreadId = (stackItem as any).threadId;
-                    this.pausedFrameId = (stackItem as any).frameId;
-                    console.log(`[DEBUG] Captured threadId: ${this.pausedThreadId}, frameId: ${this.pausedFrameId}`);
-                    
-                    // Fetch full frame details
-                    const session = vscode.debug.activeDebugSession;
-                    if (session) {
-                        await this.captureFrameDetails(session, stackItem as any);
-                    }
-                } else {
-                    // Has threadId but NO frameId = connected but not paused (running)
-                    this.isPaused = false;
-                    this.isInEventLoop = false;
-                    console.log('📍 Stack item has NO frameId - isPaused set to FALSE (running)');
-                    
-                    // Still capture threadId for reference
-                    if ('threadId' in stackItem) {
-                        this.pausedThreadId = (stackItem as any).threadId;
-                    }
+                const state = this.sessions.get(stackItem.session.id);
+                if (state) {
+                    this.focusedSessionId = state.sessionId;
+                    await state.handleActiveStackItem(stackItem);
                 }
             } else {
-                // Stack item cleared = no debug context
-                console.log('📍 Stack item cleared - isPaused set to FALSE');
-                this.isPaused = false;
-                this.isInEventLoop = false;
-                
-                // Clear all paused frame info
-                this.clearPausedFrameInfo();
+                // Stack item cleared = no debug context for the session that had focus
+                const state = this.focusedSessionId ? this.sessions.get(this.focusedSessionId) : undefined;
+                if (state) {
+                    logger.info(`📍 [${state.name}] Stack item cleared - isPaused set to FALSE`);
+                    state.handleStackItemCleared();
+                }
+                this.focusedSessionId = null;
             }
         });
 
@@ -256,390 +143,150 @@ export class DebugState {
 
         // Track debug session termination
         vscode.debug.onDidTerminateDebugSession((session) => {
-            if (session.id === this.sessionId) {
-                this.reset();
+            const state = this.sessions.get(session.id);
+            if (!state) {
+                return;
+            }
+            state.handleSessionTerminated();
+            this.recordResult(state.getResult());
+            this.sessions.delete(session.id);
+            if (this.focusedSessionId === session.id) {
+                this.focusedSessionId = null;
             }
+            logger.info(`Debug session ended: ${session.name} (${session.id})`);
         });
     }
 
     /**
-     * Update current position from debug session (fetch stack trace via DAP)
+     * Get the state of a session, creating it the first time the session is seen
      */
-    private async updateCurrentPosition(session: vscode.DebugSession) {
-        try {
-            // Get threads
-            const threadsResponse = await session.customRequest('threads');
-            if (!threadsResponse || !threadsResponse.threads || threadsResponse.threads.length === 0) {
-                return;
-            }
-
-            // Update thread tracking
-            for (const thread of threadsResponse.threads) {
-                this.threads.set(thread.id, {
-                    id: thread.id,
-                    name: thread.name,
-                    stopped: thread.stopped === true
-                });
-                
-                // Track main thread
-                if (!this.mainThreadId && thread.name?.toLowerCase().includes('main')) {
-                    this.mainThreadId = thread.id;
-                }
-            }
-
-            // Find stopped thread (prefer main thread if stopped)
-            let targetThread = null;
-            if (this.mainThreadId) {
-                const mainThread = this.threads.get(this.mainThreadId);
-                if (mainThread?.stopped) {
-                    targetThread = mainThread;
-                }
-            }
-            
-            // If main thread not stopped, find any stopped thread
-            if (!targetThread) {
-                targetThread = Array.from(this.threads.values()).find(t => t.stopped);
-            }
-
-            if (!targetThread) {
-                // No stopped threads
-                this.isPaused = false;
-                console.log('⚠️ No stopped threads - isPaused = FALSE');
-                return;
-            }
-
-            // Get stack trace for the stopped thread
-            const stackResponse = await session.customRequest('stackTrace', {
-                threadId: targetThread.id,
-                startFrame: 0,
-                levels: 20
-            });
-
-            if (stackResponse && stackResponse.stackFrames && stackResponse.stackFrames.length > 0) {
-                const topFrame = stackResponse.stackFrames[0];
-                this.stackFrames = stackResponse.stackFrames;
-                this.currentLine = topFrame.line;
-                this.currentFunction = topFrame.name;
-
-                if (topFrame.source && topFrame.source.path) {
-                    this.currentFile = topFrame.source.path;
-                }
-
-                console.log(`Position updated: ${this.currentFunction} at ${this.currentFile}:${this.currentLine}`);
-                
-                // Check if we're in event loop
-                await this.checkIfInEventLoop(session, targetThread.id);
+    private trackSession(session: vscode.DebugSession): SessionState {
+        let state = this.sessions.get(session.id);
+        if (!state) {
+            state = new SessionState(session, this.breakpoints, (event) => this.handleSessionEvent(event));
+            this.sessions.set(session.id, state);
+            logger.debug(`Session name: ${session.name}, type: ${session.type}`);
+            if (state.parentSessionId) {
+                logger.info(`Child debug session started: ${session.id} (parent: ${state.parentSessionId})`);
+            } else {
+                logger.info(`Debug session started: ${session.id}`);
             }
-        } catch (error) {
-            console.error('Error updating current position:', error);
         }
+        return state;
     }
 
     /**
-     * Check if we're paused in an event loop using DAP evaluate
+     * Keep the result of an ended session, dropping the oldest ones
      */
-    private async checkIfInEventLoop(session: vscode.DebugSession, threadId: number): Promise<void> {
-        // Only check for Python debugpy
-        if (session.configuration.type !== 'debugpy' && session.configuration.type !== 'python') {
-            this.isInEventLoop = false;
-            return;
-        }
-
-        try {
-            // Try to evaluate asyncio state
-            const evalResponse = await session.customRequest('evaluate', {
-                expression: 'import asyncio; loop = asyncio.get_running_loop(); (loop.get_debug(), len(asyncio.all_tasks(loop)))',
-                frameId: this.stackFrames[0]?.id,
-                context: 'repl'
-            });
-
-            if (evalResponse && evalResponse.result) {
-                // Parse the tuple result: (debug_enabled, task_count)
-                const match = evalResponse.result.match(/\((\w+),\s*(\d+)\)/);
-                if (match) {
-                    const debugEnabled = match[1] === 'True';
-                    const taskCount = parseInt(match[2], 10);
-                    
-                    // Check if we're near a breakpoint
-                    const nearBreakpoint = this.isNearBreakpoint();
-                    
-                    // We're in event loop if:
-                    // - Multiple tasks running (>1)
-                    // - Not near a user breakpoint
-                    // - In framework/asyncio code
-                    this.isInEventLoop = taskCount > 1 && !nearBreakpoint && this.isFrameworkCode();
-                    
-                    if (this.isInEventLoop) {
-                        console.log(`⚠️ IN EVENT LOOP: ${taskCount} tasks, debug=${debugEnabled}, nearBP=${nearBreakpoint}`);
-                        console.log(`   Setting isPaused = FALSE (event loop waiting state)`);
-                        this.isPaused = false;
-                    } else {
-                        console.log(`✅ VALID PAUSE: tasks=${taskCount}, nearBP=${nearBreakpoint}`);
-                        // Keep isPaused = true (already set by stopped event)
-                    }
-                }
-            }
-        } catch (error) {
-            // asyncio not available or not in async context - not in event loop
-            this.isInEventLoop = false;
-            // Keep isPaused = true (already set by stopped event)
-            console.log('✅ Not in async context - valid pause state');
+    private recordResult(result: SessionResult): void {
+        this.endedSessions.push(result);
+        if (this.endedSessions.length > DebugState.MAX_ENDED_SESSIONS) {
+            this.endedSessions.shift();
         }
     }
 
     /**
-     * Check if current position is near a user breakpoint (within 5 lines)
+     * Result of an ended session: the given one, or the last top-level session to end
      */
-    private isNearBreakpoint(): boolean {
-        if (!this.currentFile || !this.currentLine) {
-            return false;
+    getLastSessionResult(sessionId?: string): SessionResult | undefined {
+        const results = [...this.endedSessions].reverse();
+        if (sessionId !== undefined) {
+            return results.find(result => result.sessionId === sessionId);
         }
-
-        const breakpointsInFile = this.breakpoints.get(this.currentFile) || [];
-        return breakpointsInFile.some(bp => {
-            if (bp instanceof vscode.SourceBreakpoint) {
-                const bpLine = bp.location.range.start.line + 1; // 0-indexed to 1-indexed
-                return Math.abs(this.currentLine! - bpLine) <= 5;
-            }
-            return false;
-        });
+        return results.find(result => !result.parentSessionId) ?? results[0];
     }
 
     /**
-     * Check if current position is in framework/library code
+     * Results of the ended child sessions of a session
      */
-    private isFrameworkCode(): boolean {
-        if (!this.currentFile && !this.currentFunction) {
-            return false;
-        }
-
-        // Framework/library paths
-        const frameworkPaths = [
-            '/uvicorn/', '/starlette/', '/fastapi/',
-            '/flask/', '/django/', '/tornado/',
-            '/asyncio/', '/selectors/', '/socket',
-            'site-packages/', 'dist-packages/',
-            'node_modules/', '/express/', '/koa/'
-        ];
-
-        const isFrameworkPath = frameworkPaths.some(path =>
-            this.currentFile?.toLowerCase().includes(path)
-        );
-
-        // Event loop function names
-        const eventLoopFunctions = [
-            'run', '_run', 'serve', '_serve', 'listen', '_listen',
-            'loop', 'event_loop', 'run_forever', 'run_until_complete',
-            'select', 'poll', 'epoll', 'kqueue',
-            'wait', '_wait', 'wait_for', '__aexit__', '__aenter__'
-        ];
-
-        const isEventLoopFunction = eventLoopFunctions.some(fn => 
-            this.currentFunction?.toLowerCase().includes(fn)
-        );
-
-        return isFrameworkPath || isEventLoopFunction;
+    getChildSessionResults(sessionId: string): SessionResult[] {
+        return this.endedSessions.filter(result => result.parentSessionId === sessionId);
     }
 
     /**
-     * Capture frame details from active stack item
+     * Forward a session's event to listeners; a child's stop also counts as a stop of its ancestors
      */
-    private async captureFrameDetails(session: vscode.DebugSession, stackItem: any): Promise<void> {
-        try {
-            const threadId = stackItem.threadId;
-            console.log(`[DEBUG] Capturing frame details for thread ${threadId}`);
-            
-            const response = await session.customRequest('stackTrace', {
-                threadId: threadId,
-                startFrame: 0,
-                levels: 20
-            });
-            
-            if (response?.stackFrames?.length > 0) {
-                const frame = response.stackFrames[0];
-                this.pausedThreadId = threadId;
-                this.pausedFrameId = frame.id;
-                this.pausedLine = frame.line;
-                this.pausedFunction = frame.name;
-                this.pausedFile = frame.source?.path;
-                
-                // Also update current* properties for backward compatibility
-                this.currentLine = frame.line;
-                this.currentFunction = frame.name;
-                this.currentFile = frame.source?.path;
-                this.stackFrames = response.stackFrames;
-                
-                console.log(`[DEBUG] Frame captured: ${this.pausedFunction} at ${this.pausedFile}:${this.pausedLine}`);
-                console.log(`[DEBUG] ThreadId: ${this.pausedThreadId}, FrameId: ${this.pausedFrameId}`);
-                
-                // Check if we're in event loop
-                await this.checkIfInEventLoop(session, threadId);
+    private handleSessionEvent(event: DebugEvent): void {
+        if (event.event === 'stopped' && event.parentSessionId) {
+            logger.info(`⏸️ Child session ${event.sessionName} (${event.sessionId}) stopped`);
+            for (const ancestor of this.getAncestors(event.sessionId)) {
+                ancestor.handleChildStopped(event);
             }
-        } catch (error) {
-            console.error('[DEBUG] Error capturing frame details:', error);
         }
+        this.debugEventEmitter.fire(event);
     }
 
     /**
-     * Verify that we're actually paused by checking thread state
-     * This is needed because activeStackItem can persist even when running
+     * Get the state of a running session by id
      */
-    private async verifyPausedState(session: vscode.DebugSession): Promise<boolean> {
-        try {
-            // Get threads and check if any are stopped
-            const threadsResponse = await session.customRequest('threads');
-            
-            if (threadsResponse?.threads) {
-                for (const thread of threadsResponse.threads) {
-                    // Try to get stack trace for this thread
-                    try {
-                        const stackResponse = await session.customRequest('stackTrace', {
-                            threadId: thread.id,
-                            startFrame: 0,
-                            levels: 1
-                        });
-                        
-                        // If we can get a stack frame, thread is paused
-                        if (stackResponse?.stackFrames?.length > 0) {
-                            console.log(`[DEBUG] verifyPausedState: Thread ${thread.id} has stack frames - PAUSED`);
-                            return true;
-                        }
-                    } catch (stackError: any) {
-                        // Stack trace failed - thread might be running
-                        // This is expected for running threads
-                        console.log(`[DEBUG] verifyPausedState: Thread ${thread.id} stack error: ${stackError.message}`);
-                    }
-                }
-            }
-            
-            console.log(`[DEBUG] verifyPausedState: No paused threads found - NOT PAUSED`);
-            return false;
-        } catch (error) {
-            console.error('[DEBUG] verifyPausedState error:', error);
-            // On error, assume paused (safer for debugging)
-            return true;
-        }
+    getSession(sessionId: string): SessionState | undefined {
+        return this.sessions.get(sessionId);
     }
 
     /**
-     * Clear paused frame info when debugger resumes
+     * All running sessions, oldest first
      */
-    private clearPausedFrameInfo(): void {
-        console.log(`[DEBUG] Clearing paused frame info`);
-        this.pausedThreadId = null;
-        this.pausedFrameId = null;
-        this.pausedLine = null;
-        this.pausedFunction = null;
-        this.pausedFile = null;
+    listSessions(): SessionState[] {
+        return Array.from(this.sessions.values());
     }
 
     /**
-     * Get stored paused thread ID (for getVariables, getStackTrace)
+     * Direct children of a session
      */
-    getPausedThreadId(): number | null {
-        return this.pausedThreadId;
+    getChildSessions(sessionId: string): SessionState[] {
+        return this.listSessions().filter(state => state.parentSessionId === sessionId);
     }
 
     /**
-     * Get stored paused frame ID (for evaluate)
+     * Children, grandchildren... of a session
      */
-    getPausedFrameId(): number | null {
-        return this.pausedFrameId;
+    getDescendants(sessionId: string): SessionState[] {
+        const children = this.getChildSessions(sessionId);
+        return children.flatMap(child => [child, ...this.getDescendants(child.sessionId)]);
     }
 
     /**
-     * Reset state when debug session ends
+     * Parent, grandparent... of a session that are still running, nearest first
      */
-    reset() {
-        this.sessionId = null;
-        this.currentFile = null;
-        this.currentLine = null;
-        this.currentFunction = null;
-        this.isPaused = false;
-        this.isInEventLoop = false;
-        this.stackFrames = [];
-        this.threads.clear();
-        this.mainThreadId = null;
-        this.clearPausedFrameInfo();
+    getAncestors(sessionId: string): SessionState[] {
+        const ancestors: SessionState[] = [];
+        let parentId = this.sessions.get(sessionId)?.parentSessionId;
+        while (parentId) {
+            const parent = this.sessions.get(parentId);
+            if (!parent) {
+                break;
+            }
+            ancestors.push(parent);
+            parentId = parent.parentSessionId;
+        }
+        return ancestors;
     }
 
     /**
-     * Manually refresh frame info when paused (NOT for setting isPaused state)
-     * isPaused is ONLY controlled by stopped/continued DAP events
+     * The session tools act on by default: VS Code's active debug session,
+     * or the most recently started one when VS Code has none focused
      */
-    async refreshPausedState(): Promise<void> {
-        console.log(`[DEBUG] refreshPausedState() called - current isPaused: ${this.isPaused}`);
-        
-        // DO NOT use activeStackItem to set isPaused - it's unreliable
-        // isPaused is ONLY controlled by stopped/continued events
-        
-        const session = this.getActiveSession();
-        if (!session) {
-            console.log(`[DEBUG] No active session`);
-            return;
-        }
-
-        // If we think we're paused, try to refresh the position info
-        if (this.isPaused) {
-            try {
-                const threadsResponse = await session.customRequest('threads');
-                console.log(`[DEBUG] Threads response:`, JSON.stringify(threadsResponse, null, 2));
-                
-                if (threadsResponse && threadsResponse.threads && threadsResponse.threads.length > 0) {
-                    // Update all thread states
-                    for (const thread of threadsResponse.threads) {
-                        console.log(`[DEBUG] Thread ${thread.id} (${thread.name}): stopped=${thread.stopped}`);
-                        this.threads.set(thread.id, {
-                            id: thread.id,
-                            name: thread.name,
-                            stopped: thread.stopped === true
-                        });
-                    }
-
-                    // Try to get stack trace to update position info
-                    const stoppedThread = Array.from(this.threads.values()).find(t => t.stopped);
-                    if (stoppedThread) {
-                        try {
-                            const stackResponse = await session.customRequest('stackTrace', {
-                                threadId: stoppedThread.id,
-                                startFrame: 0,
-                                levels: 20
-                            });
-                            
-                            if (stackResponse?.stackFrames?.length > 0) {
-                                // Update position info
-                                const topFrame = stackResponse.stackFrames[0];
-                                this.stackFrames = stackResponse.stackFrames;
-                                this.currentLine = topFrame.line;
-                                this.currentFunction = topFrame.name;
-                                if (topFrame.source && topFrame.source.path) {
-                                    this.currentFile = topFrame.source.path;
-                                }
-                                console.log(`🔄 Refreshed position: ${this.currentFunction} at ${this.currentFile}:${this.currentLine}`);
-                            }
-                        } catch (stackError) {
-                            console.log('⚠️ Error getting stack trace:', stackError);
-                        }
-                    }
-                }
-            } catch (error) {
-                console.error('[DEBUG] Error refreshing frame info:', error);
-            }
+    getCurrentSession(): SessionState | undefined {
+        const active = vscode.debug.activeDebugSession;
+        if (active && this.sessions.has(active.id)) {
+            return this.sessions.get(active.id);
         }
+        const sessions = this.listSessions();
+        return sessions[sessions.length - 1];
     }
 
     /**
-     * Get current active debug session
+     * The session with the given id, or the current session when no id is given
      */
-    getActiveSession(): vscode.DebugSession | undefined {
-        return vscode.debug.activeDebugSession;
+    resolveSession(sessionId?: string): SessionState | undefined {
+        return sessionId !== undefined ? this.getSession(sessionId) : this.getCurrentSession();
     }
 
     /**
      * Check if a debug session is active
      */
     isActive(): boolean {
-        return this.sessionId !== null && vscode.debug.activeDebugSession !== undefined;
+        return this.sessions.size > 0;
     }
 }
 
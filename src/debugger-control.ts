@@ -0,0 +1,142 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { clientSessions } from './client-sessions';
+import { logger } from './logger';
+
+/**
+ * Debugger Control - arbitrates the single debugger between several MCP clients.
+ *
+ * - A client may hold the control lease; while it does, other clients are limited
+ *   to inspection tools.
+ * - Execution-changing tool calls are serialized through a mutex so two clients
+ *   can't interleave step/continue requests on the same session.
+ */
+export class DebuggerControl {
+    private static instance: DebuggerControl;
+
+    private holderSessionId: string | null = null;
+    private acquiredAt: number | null = null;
+    private executionQueue: Promise<void> = Promise.resolve();
+
+    // A lease whose holder has been silent this long is considered abandoned
+    private static readonly LEASE_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+    private constructor() {
+        clientSessions.onDidCloseSession((sessionId) => {
+            if (sessionId === this.holderSessionId) {
+                logger.info(`[Debugger Control] Holder session ${sessionId} closed - releasing control`);
+                this.clearLease();
+            }
+        });
+    }
+
+    static getInstance(): DebuggerControl {
+        if (!DebuggerControl.instance) {
+            DebuggerControl.instance = new DebuggerControl();
+        }
+        return DebuggerControl.instance;
+    }
+
+    /**
+     * Acquire the control lease for a client session
+     */
+    acquire(sessionId: string): { granted: boolean; holder: any } {
+        const holder = this.getHolderSessionId();
+        if (holder && holder !== sessionId) {
+            return { granted: false, holder: this.describeHolder() };
+        }
+
+        if (holder !== sessionId) {
+            this.holderSessionId = sessionId;
+            this.acquiredAt = Date.now();
+            logger.info(`[Debugger Control] Control acquired by session ${sessionId}`);
+        }
+        return { granted: true, holder: this.describeHolder() };
+    }
+
+    /**
+     * Release the control lease (only the holder can release it)
+     */
+    release(sessionId: string): boolean {
+        if (this.getHolderSessionId() !== sessionId) {
+            return false;
+        }
+        logger.info(`[Debugger Control] Control released by session ${sessionId}`);
+        this.clearLease();
+        return true;
+    }
+
+    /**
+     * Get the session currently holding the lease, dropping abandoned leases
+     */
+    getHolderSessionId(): string | null {
+        if (!this.holderSessionId) {
+            return null;
+        }
+
+        const holder = clientSessions.get(this.holderSessionId);
+        if (!holder || Date.now() - holder.lastSeen > DebuggerControl.LEASE_IDLE_TIMEOUT_MS) {
+            logger.info(`[Debugger Control] Lease of session ${this.holderSessionId} expired`);
+            this.clearLease();
+            return null;
+        }
+        return this.holderSessionId;
+    }
+
+    /**
+     * Public description of the lease holder (null when nobody holds control)
+     */
+    describeHolder(): { clientName: string; acquiredAt: string } | null {
+        const holderId = this.getHolderSessionId();
+        if (!holderId) {
+            return null;
+        }
+        // The session id itself is not exposed - it would let other clients impersonate the holder
+        return {
+            clientName: clientSessions.get(holderId)?.clientName || 'unknown',
+            acquiredAt: new Date(this.acquiredAt!).toISOString()
+        };
+    }
+
+    /**
+     * Whether a session may run state-changing tools right now
+     */
+    canModify(sessionId: string): boolean {
+        const holder = this.getHolderSessionId();
+        return holder === null || holder === sessionId;
+    }
+
+    /**
+     * Run an execution-changing operation once the previous ones have finished
+     */
+    runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.executionQueue.then(operation);
+        // Keep the queue going whether or not this operation fails
+        this.executionQueue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private clearLease(): void {
+        this.holderSessionId = null;
+        this.acquiredAt = null;
+    }
+}
+
+// Export singleton instance
+export const debuggerControl = DebuggerControl.getInstance();
@@ -0,0 +1,160 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { Response } from 'express';
+import { logger } from './logger';
+
+/**
+ * Event Stream - server-sent events (SSE) channel for the MCP Streamable HTTP transport.
+ * Clients open it with GET /mcp and receive JSON-RPC notifications pushed by the server.
+ */
+export class EventStream {
+    private static instance: EventStream;
+
+    // Open streams and the MCP client session each belongs to
+    private clients: Map<Response, string> = new Map();
+    private keepAliveTimer: NodeJS.Timeout | null = null;
+    private nextEventId: number = 1;
+
+    private static readonly KEEP_ALIVE_MS = 15000;
+
+    private constructor() {}
+
+    static getInstance(): EventStream {
+        if (!EventStream.instance) {
+            EventStream.instance = new EventStream();
+        }
+        return EventStream.instance;
+    }
+
+    /**
+     * Open an SSE stream on the given response and keep it until the client disconnects
+     */
+    addClient(res: Response, sessionId: string): void {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        // Comment line so clients see the stream is open right away
+        res.write(': connected\n\n');
+
+        this.clients.set(res, sessionId);
+        logger.info(`[Event Stream] Session ${sessionId} connected (${this.clients.size} open)`);
+
+        res.on('close', () => {
+            this.clients.delete(res);
+            logger.info(`[Event Stream] Session ${sessionId} disconnected (${this.clients.size} open)`);
+            if (this.clients.size === 0) {
+                this.stopKeepAlive();
+            }
+        });
+
+        this.startKeepAlive();
+    }
+
+    /**
+     * Push a JSON-RPC notification to every connected client
+     */
+    broadcast(method: string, params: any): void {
+        if (this.clients.size === 0) {
+            return;
+        }
+
+        const payload = this.formatEvent({ jsonrpc: '2.0', method, params });
+        for (const client of this.clients.keys()) {
+            client.write(payload);
+        }
+    }
+
+    /**
+     * Push a JSON-RPC notification to the streams of one client session
+     */
+    sendToSession(sessionId: string, method: string, params: any): void {
+        let payload: string | null = null;
+        for (const [client, clientSessionId] of this.clients) {
+            if (clientSessionId === sessionId) {
+                payload = payload ?? this.formatEvent({ jsonrpc: '2.0', method, params });
+                client.write(payload);
+            }
+        }
+    }
+
+    /**
+     * Close the streams of one client session
+     */
+    closeSession(sessionId: string): void {
+        for (const [client, clientSessionId] of this.clients) {
+            if (clientSessionId === sessionId) {
+                client.end();
+                this.clients.delete(client);
+            }
+        }
+    }
+
+    /**
+     * Number of connected SSE clients
+     */
+    getClientCount(): number {
+        return this.clients.size;
+    }
+
+    /**
+     * Close every open stream (called when the server stops)
+     */
+    closeAll(): void {
+        for (const client of this.clients.keys()) {
+            client.end();
+        }
+        this.clients.clear();
+        this.stopKeepAlive();
+    }
+
+    /**
+     * Format a JSON-RPC message as an SSE event
+     */
+    private formatEvent(message: any): string {
+        const id = this.nextEventId++;
+        return `id: ${id}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`;
+    }
+
+    /**
+     * Periodically send a comment so proxies don't drop idle streams
+     */
+    private startKeepAlive(): void {
+        if (this.keepAliveTimer) {
+            return;
+        }
+        this.keepAliveTimer = setInterval(() => {
+            for (const client of this.clients.keys()) {
+                client.write(': ping\n\n');
+            }
+        }, EventStream.KEEP_ALIVE_MS);
+    }
+
+    private stopKeepAlive(): void {
+        if (this.keepAliveTimer) {
+            clearInterval(this.keepAliveTimer);
+            this.keepAliveTimer = null;
+        }
+    }
+}
+
+// Export singleton instance
+export const eventStream = EventStream.getInstance();
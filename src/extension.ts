@@ -17,10 +17,12 @@
  */
 
 import * as vscode from 'vscode';
-import { startMCPServer, stopMCPServer, setMCPPort, getMCPPort, isServerRunning } from './mcp-server';
+import { startMCPServer, stopMCPServer, setMCPPort, getMCPPort, setMCPHost, setMCPAuthToken, setMCPServerInfo, isServerRunning } from './mcp-server';
 import { statusBarManager } from './status-bar';
 import { ProjectMCPConfigManager } from './project-mcp-config';
 import { PortRegistry } from './port-registry';
+import { auditLog } from './audit-log';
+import { logger } from './logger';
 
 /**
  * Extension activation entry point
@@ -30,20 +32,28 @@ import { PortRegistry } from './port-registry';
  * This prevents the extension from being annoying for projects that don't use debugging.
  */
 export function activate(context: vscode.ExtensionContext) {
-    console.log('Killer Bug AI Debugger extension is activating...');
+    // Every module logs through the "Killer Bug" output channel (level set via "Developer: Set Log Level...")
+    const outputChannel = vscode.window.createOutputChannel('Killer Bug', { log: true });
+    logger.setOutputChannel(outputChannel);
+    context.subscriptions.push(outputChannel, { dispose: () => logger.setOutputChannel(null) });
+
+    logger.info('Killer Bug AI Debugger extension is activating...');
 
     // Initialize status bar in idle/start mode
     statusBarManager; // Initialize singleton
 
+    // Record AI tool calls in the extension's workspace storage (outside the project tree)
+    auditLog.configure((context.storageUri ?? context.globalStorageUri).fsPath);
+
     // Register command to show output (used when server is running)
     const showOutputCommand = vscode.commands.registerCommand('killerBug.showOutput', () => {
-        vscode.window.showInformationMessage('Killer Bug AI Debugger is active. Check Extension Host output for logs.');
+        logger.show();
     });
     context.subscriptions.push(showOutputCommand);
 
     // Register TOGGLE command - this is the main entry point for users now (start/stop)
     const toggleCommand = vscode.commands.registerCommand('killerBug.start', async () => {
-        console.log('[Killer Bug] Toggle command invoked');
+        logger.info('[Killer Bug] Toggle command invoked');
         await handleToggleServer(context);
     });
     context.subscriptions.push(toggleCommand);
@@ -55,7 +65,7 @@ export function activate(context: vscode.ExtensionContext) {
         const isCursor = appName.toLowerCase().includes('cursor');
         const ideType = isCursor ? 'cursor' : 'vscode';
         
-        console.log(`[Killer Bug] Auto-detected IDE: ${ideType} (${appName})`);
+        logger.info(`[Killer Bug] Auto-detected IDE: ${ideType} (${appName})`);
         await handleConfigureCommand(context, ideType);
     });
     context.subscriptions.push(configureCommand);
@@ -75,15 +85,42 @@ export function activate(context: vscode.ExtensionContext) {
                 const fs = require('fs');
                 fs.writeFileSync(registryPath, JSON.stringify({}, null, 2), 'utf-8');
                 vscode.window.showInformationMessage('Killer Bug port registry cleared successfully');
-                console.log('[Killer Bug] Port registry reset');
+                logger.info('[Killer Bug] Port registry reset');
             } catch (error) {
                 vscode.window.showErrorMessage(`Failed to reset port registry: ${error}`);
-                console.error('[Killer Bug] Error resetting port registry:', error);
+                logger.error('[Killer Bug] Error resetting port registry:', error);
             }
         }
     });
     context.subscriptions.push(resetPortRegistryCommand);
 
+    // Register command to copy the launch command for stdio-only MCP clients
+    const copyStdioCommand = vscode.commands.registerCommand('killerBug.copyStdioCommand', async () => {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('Please open a project folder to use the Killer Bug stdio bridge');
+            return;
+        }
+
+        const bridgePath = vscode.Uri.joinPath(context.extensionUri, 'dist', 'stdio-bridge.js').fsPath;
+        const command = `node "${bridgePath}" --project "${workspaceFolders[0].uri.fsPath}"`;
+        await vscode.env.clipboard.writeText(command);
+        vscode.window.showInformationMessage('Killer Bug stdio bridge command copied to clipboard');
+        logger.info(`[Killer Bug] Stdio bridge command: ${command}`);
+    });
+    context.subscriptions.push(copyStdioCommand);
+
+    // Register command to open the audit log of AI tool calls
+    const openAuditLogCommand = vscode.commands.registerCommand('killerBug.openAuditLog', async () => {
+        const logPath = auditLog.getLogPath();
+        if (!logPath || !require('fs').existsSync(logPath)) {
+            vscode.window.showInformationMessage('No AI tool calls have been recorded yet');
+            return;
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(logPath));
+    });
+    context.subscriptions.push(openAuditLogCommand);
+
     // Initialize status bar to always show "Ready" - silent mode until user clicks
     // Don't check or warn about configuration - user will see config dialog only when clicking
     try {
@@ -96,8 +133,8 @@ export function activate(context: vscode.ExtensionContext) {
             const isCursor = appName.toLowerCase().includes('cursor');
             const ideType = isCursor ? 'cursor' : 'vscode';
             
-            console.log(`[Killer Bug] Running in: ${appName} (detected as ${ideType})`);
-            console.log('[Killer Bug] Status bar in silent ready mode - waiting for user click');
+            logger.info(`[Killer Bug] Running in: ${appName} (detected as ${ideType})`);
+            logger.info('[Killer Bug] Status bar in silent ready mode - waiting for user click');
             
             // Check if auto-start is enabled
             const autoStartEnabled = vscode.workspace.getConfiguration('killerBug').get('autoStart', true);
@@ -109,16 +146,18 @@ export function activate(context: vscode.ExtensionContext) {
                 
                 if (status.configured && status.port) {
                     // Project is configured and auto-start is enabled - auto-start the server
-                    console.log(`[Killer Bug] Auto-start enabled and project configured on port ${status.port}`);
+                    logger.info(`[Killer Bug] Auto-start enabled and project configured on port ${status.port}`);
                     setMCPPort(status.port);
-                    try {
-                        startMCPServer();
-                        console.log(`[Killer Bug] MCP server auto-started on port ${getMCPPort()}`);
-                        statusBarManager.showRunning(getMCPPort());
-                    } catch (error) {
-                        console.error('[Killer Bug] Failed to auto-start MCP server:', error);
-                        statusBarManager.showReady();
-                    }
+                    startServerForProject(configManager, projectRoot, workspaceFolders[0].name)
+                        .then(() => {
+                            logger.info(`[Killer Bug] MCP server auto-started on port ${getMCPPort()}`);
+                            statusBarManager.showRunning(getMCPPort());
+                        })
+                        .catch((error) => {
+                            logger.error('[Killer Bug] Failed to auto-start MCP server:', error);
+                            statusBarManager.showReady();
+                            vscode.window.showErrorMessage(`Failed to start Killer Bug MCP server: ${error}`);
+                        });
                 } else {
                     // Not configured yet - show ready state
                     statusBarManager.showReady();
@@ -129,16 +168,41 @@ export function activate(context: vscode.ExtensionContext) {
             }
         } else {
             // No project open
-            console.log('[Killer Bug] No workspace folder open');
+            logger.info('[Killer Bug] No workspace folder open');
             statusBarManager.showReady();
         }
     } catch (error) {
-        console.error('Error during extension initialization:', error);
+        logger.error('Error during extension initialization:', error);
         // Show error but don't crash
-        console.log('[Killer Bug] Continuing with safe state after initialization error');
+        logger.info('[Killer Bug] Continuing with safe state after initialization error');
     }
 
-    console.log('Killer Bug AI Debugger extension activated (lazy mode - click status bar to start)');
+    logger.info('Killer Bug AI Debugger extension activated (lazy mode - click status bar to start)');
+}
+
+/**
+ * Start the MCP server and record the port it actually bound in the port registry,
+ * so the stdio bridge can find this instance by project path
+ */
+async function startServerForProject(configManager: ProjectMCPConfigManager, projectRoot: string, projectName: string): Promise<void> {
+    // Require the project's secret on /mcp and stay on loopback unless configured otherwise
+    const token = configManager.ensureAuthToken();
+    if (!token) {
+        throw new Error('No auth token in the project MCP config and none could be written - refusing to start without authentication');
+    }
+    setMCPAuthToken(token);
+    setMCPHost(vscode.workspace.getConfiguration('killerBug').get('host', '127.0.0.1'));
+    setMCPServerInfo(getExtensionVersion(), projectName);
+
+    await startMCPServer();
+    PortRegistry.registerPort(getMCPPort(), projectRoot, projectName);
+}
+
+/**
+ * Version from the extension's package.json
+ */
+function getExtensionVersion(): string {
+    return vscode.extensions.getExtension('fellowabhi.killer-bug-ai-debugger')?.packageJSON.version ?? 'unknown';
 }
 
 /**
@@ -146,12 +210,12 @@ export function activate(context: vscode.ExtensionContext) {
  * Shows configuration popup only if project is not yet configured
  */
 async function handleToggleServer(context: vscode.ExtensionContext) {
-    console.log('[Killer Bug] Handling toggle server request');
+    logger.info('[Killer Bug] Handling toggle server request');
     
     // Check if server is already running
     if (isServerRunning()) {
         // Server is running - stop it
-        console.log('[Killer Bug] Server is running, stopping...');
+        logger.info('[Killer Bug] Server is running, stopping...');
         stopMCPServer();
         statusBarManager.showConfiguredNotRunning(getMCPPort());
         vscode.window.showInformationMessage('✓ Killer Bug AI Debugger stopped', { modal: false });
@@ -178,7 +242,7 @@ async function handleToggleServer(context: vscode.ExtensionContext) {
     
     if (!status.configured || !status.port) {
         // Project not configured - show configuration required status
-        console.log('[Killer Bug] Project not configured - showing configuration dialog');
+        logger.info('[Killer Bug] Project not configured - showing configuration dialog');
         
         // Briefly show configuration required state
         statusBarManager.showConfigurationRequired();
@@ -193,7 +257,7 @@ async function handleToggleServer(context: vscode.ExtensionContext) {
             // Run configuration
             await handleConfigureCommand(context, ideType);
         } else {
-            console.log('[Killer Bug] User cancelled configuration');
+            logger.info('[Killer Bug] User cancelled configuration');
             statusBarManager.showReady();
             vscode.window.showInformationMessage('Run "Killer Bug: Configure AI Debugger" command when ready to set up debugging.');
         }
@@ -202,23 +266,23 @@ async function handleToggleServer(context: vscode.ExtensionContext) {
     
     // Project is configured - start the MCP server
     try {
-        console.log(`[Killer Bug] Starting MCP server on configured port ${status.port}`);
+        logger.info(`[Killer Bug] Starting MCP server on configured port ${status.port}`);
         setMCPPort(status.port);
-        startMCPServer();
+        await startServerForProject(configManager, projectRoot, projectName);
         
-        console.log(`[Killer Bug] MCP server started successfully on port ${getMCPPort()}`);
+        logger.info(`[Killer Bug] MCP server started successfully on port ${getMCPPort()}`);
         statusBarManager.showRunning(getMCPPort());
         
         // Show brief confirmation
         vscode.window.showInformationMessage(`✓ Killer Bug AI Debugger started on port ${getMCPPort()}`, { modal: false });
     } catch (error) {
-        console.error('[Killer Bug] Failed to start MCP server:', error);
+        logger.error('[Killer Bug] Failed to start MCP server:', error);
         statusBarManager.showError('Failed to start MCP server');
         vscode.window.showErrorMessage(`Failed to start Killer Bug MCP server: ${error}`);
     }
 }
 async function handleConfigureCommand(context: vscode.ExtensionContext, ideType: 'vscode' | 'cursor') {
-    console.log(`[Killer Bug] Configure ${ideType} command called`);
+    logger.info(`[Killer Bug] Configure ${ideType} command called`);
     
     // Get workspace folder
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -251,7 +315,7 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
 
                 if (status.configured && status.port) {
                     portToUse = status.port;
-                    console.log(`[Killer Bug] Project already configured on port ${portToUse}`);
+                    logger.info(`[Killer Bug] Project already configured on port ${portToUse}`);
                     
                     // Verify port is still registered
                     if (PortRegistry.isPortRegistered(portToUse, projectRoot)) {
@@ -268,7 +332,7 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
                             status.configured = false;
                         } else {
                             // Use current port despite conflict
-                            console.log(`[Killer Bug] User chose to keep port ${portToUse} despite conflict`);
+                            logger.info(`[Killer Bug] User chose to keep port ${portToUse} despite conflict`);
                         }
                     } else {
                         // Re-register the port for this project
@@ -327,7 +391,7 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
                     }
 
                     portToUse = userChoice.port;
-                    console.log(`[Killer Bug] User selected port ${portToUse}`);
+                    logger.info(`[Killer Bug] User selected port ${portToUse}`);
                 }
 
                 progress.report({ increment: 60 });
@@ -339,7 +403,7 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
 
                 // Register the port in global registry
                 PortRegistry.registerPort(portToUse, projectRoot, projectName);
-                console.log(`[Killer Bug] Registered port ${portToUse} for project: ${projectName}`);
+                logger.info(`[Killer Bug] Registered port ${portToUse} for project: ${projectName}`);
 
                 progress.report({ increment: 100 });
 
@@ -350,14 +414,15 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
                     setMCPPort(portToUse);
 
                     // IMMEDIATELY start the MCP server with the configured port
-                    console.log(`[Killer Bug] Starting MCP server on port ${portToUse}...`);
+                    logger.info(`[Killer Bug] Starting MCP server on port ${portToUse}...`);
                     try {
-                        startMCPServer();
-                        console.log(`[Killer Bug] MCP server started successfully on port ${getMCPPort()}`);
+                        await startServerForProject(configManager, projectRoot, projectName);
+                        logger.info(`[Killer Bug] MCP server started successfully on port ${getMCPPort()}`);
                         statusBarManager.showRunning(getMCPPort());
                     } catch (startError) {
-                        console.error(`[Killer Bug] Failed to start MCP server:`, startError);
+                        logger.error(`[Killer Bug] Failed to start MCP server:`, startError);
                         statusBarManager.showError('Killer Bug server failed to start');
+                        vscode.window.showErrorMessage(`Failed to start Killer Bug MCP server: ${startError}`);
                     }
 
                     // Show result with action buttons
@@ -377,14 +442,14 @@ async function handleConfigureCommand(context: vscode.ExtensionContext, ideType:
                         }
                     );
 
-                    console.log('[Killer Bug] Project configuration successful');
+                    logger.info('[Killer Bug] Project configuration successful');
                 } else {
                     statusBarManager.showError('Killer Bug Config Failed');
                     vscode.window.showErrorMessage(result.message, { modal: true });
-                    console.log('[Killer Bug] Project configuration failed');
+                    logger.info('[Killer Bug] Project configuration failed');
                 }
             } catch (error) {
-                console.error(`[Killer Bug] Error in configure command:`, error);
+                logger.error(`[Killer Bug] Error in configure command:`, error);
                 vscode.window.showErrorMessage(`Error: ${error}`);
             }
         }
@@ -408,11 +473,11 @@ export function deactivate() {
     try {
         if (fs.existsSync(registryPath)) {
             fs.unlinkSync(registryPath);
-            console.log('[Killer Bug] Cleaned up port registry on deactivation');
+            logger.info('[Killer Bug] Cleaned up port registry on deactivation');
         }
     } catch (error) {
-        console.warn('[Killer Bug] Warning: Could not clean up port registry:', error);
+        logger.warn('[Killer Bug] Warning: Could not clean up port registry:', error);
     }
     
-    console.log('AI Debug MCP Server extension deactivated');
+    logger.info('AI Debug MCP Server extension deactivated');
 }
@@ -0,0 +1,136 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { LogOutputChannel } from 'vscode';
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A formatted log line, as delivered to listeners
+ */
+export interface LogRecord {
+    level: LogLevel;
+    message: string;
+    timestamp: string;
+}
+
+/**
+ * Logger - writes to the "Killer Bug" output channel once the extension has created it.
+ *
+ * The module deliberately has no runtime dependency on 'vscode': the stdio bridge shares
+ * modules that log, and runs as a plain Node process where messages go to the console.
+ */
+export class Logger {
+    private static instance: Logger;
+
+    private channel: LogOutputChannel | null = null;
+    private listeners: Array<(record: LogRecord) => void> = [];
+
+    private constructor() {}
+
+    static getInstance(): Logger {
+        if (!Logger.instance) {
+            Logger.instance = new Logger();
+        }
+        return Logger.instance;
+    }
+
+    /**
+     * Send all further messages to the given output channel
+     */
+    setOutputChannel(channel: LogOutputChannel | null): void {
+        this.channel = channel;
+    }
+
+    /**
+     * Reveal the output channel
+     */
+    show(): void {
+        this.channel?.show(true);
+    }
+
+    trace(message: string, ...args: any[]): void {
+        this.log('trace', message, args);
+    }
+
+    debug(message: string, ...args: any[]): void {
+        this.log('debug', message, args);
+    }
+
+    info(message: string, ...args: any[]): void {
+        this.log('info', message, args);
+    }
+
+    warn(message: string, ...args: any[]): void {
+        this.log('warn', message, args);
+    }
+
+    error(message: string, ...args: any[]): void {
+        this.log('error', message, args);
+    }
+
+    /**
+     * Register a callback for every message logged (used to forward diagnostics to MCP clients)
+     */
+    onDidLog(listener: (record: LogRecord) => void): { dispose(): void } {
+        this.listeners.push(listener);
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter(l => l !== listener);
+            }
+        };
+    }
+
+    private log(level: LogLevel, message: string, args: any[]): void {
+        if (this.channel) {
+            this.channel[level](message, ...args);
+        } else {
+            const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+            write(message, ...args);
+        }
+
+        if (this.listeners.length === 0) {
+            return;
+        }
+        const record: LogRecord = {
+            level,
+            message: [message, ...args.map(formatArgument)].join(' '),
+            timestamp: new Date().toISOString()
+        };
+        for (const listener of this.listeners) {
+            listener(record);
+        }
+    }
+}
+
+function formatArgument(arg: any): string {
+    if (arg instanceof Error) {
+        return arg.message;
+    }
+    if (typeof arg === 'string') {
+        return arg;
+    }
+    try {
+        return JSON.stringify(arg);
+    } catch {
+        return String(arg);
+    }
+}
+
+// Export singleton instance
+export const logger = Logger.getInstance();
@@ -19,6 +19,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { logger } from './logger';
 
 /**
  * MCP Config Manager - handles VS Code and Cursor MCP configuration
@@ -73,16 +74,16 @@ export class MCPConfigManager {
     private readConfig(): any {
         try {
             if (!fs.existsSync(this.configPath)) {
-                console.log(`[MCP Config] Config file does not exist: ${this.configPath}`);
+                logger.info(`[MCP Config] Config file does not exist: ${this.configPath}`);
                 return {};
             }
 
             const content = fs.readFileSync(this.configPath, 'utf-8');
             const config = JSON.parse(content);
-            console.log(`[MCP Config] Loaded config from: ${this.configPath}`);
+            logger.info(`[MCP Config] Loaded config from: ${this.configPath}`);
             return config;
         } catch (error) {
-            console.error(`[MCP Config] Error reading config: ${error}`);
+            logger.error(`[MCP Config] Error reading config: ${error}`);
             return {};
         }
     }
@@ -95,16 +96,16 @@ export class MCPConfigManager {
             // Ensure directory exists
             const configDir = path.dirname(this.configPath);
             if (!fs.existsSync(configDir)) {
-                console.log(`[MCP Config] Creating directory: ${configDir}`);
+                logger.info(`[MCP Config] Creating directory: ${configDir}`);
                 fs.mkdirSync(configDir, { recursive: true });
             }
 
             // Write with formatting
             fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2), 'utf-8');
-            console.log(`[MCP Config] Config written to: ${this.configPath}`);
+            logger.info(`[MCP Config] Config written to: ${this.configPath}`);
             return true;
         } catch (error) {
-            console.error(`[MCP Config] Error writing config: ${error}`);
+            logger.error(`[MCP Config] Error writing config: ${error}`);
             return false;
         }
     }
@@ -133,7 +134,7 @@ export class MCPConfigManager {
      * Internal method to configure MCP for the specified IDE
      */
     private async configure(port: number, ideName: string): Promise<{ success: boolean; message: string; configPath: string }> {
-        console.log(`[MCP Config] Configuring ${ideName} MCP server on port ${port}`);
+        logger.info(`[MCP Config] Configuring ${ideName} MCP server on port ${port}`);
 
         try {
             // Read existing config
@@ -146,7 +147,7 @@ export class MCPConfigManager {
             // Initialize servers object if not exists
             if (!config[serverKey]) {
                 config[serverKey] = {};
-                console.log(`[MCP Config] Created ${serverKey} object`);
+                logger.info(`[MCP Config] Created ${serverKey} object`);
             }
 
             // Define AI Debug server config for HTTP transport
@@ -161,7 +162,7 @@ export class MCPConfigManager {
             // Check if already configured
             const existingConfig = config[serverKey]['ai-debug'];
             if (existingConfig) {
-                console.log('[MCP Config] AI Debug server already configured');
+                logger.info('[MCP Config] AI Debug server already configured');
                 
                 // Check if port is the same
                 if (existingConfig.env?.MCP_PORT == port) {
@@ -172,12 +173,12 @@ export class MCPConfigManager {
                     };
                 } else {
                     // Update port
-                    console.log(`[MCP Config] Updating port from ${existingConfig.env?.MCP_PORT} to ${port}`);
+                    logger.info(`[MCP Config] Updating port from ${existingConfig.env?.MCP_PORT} to ${port}`);
                     config[serverKey]['ai-debug'] = aiDebugServerConfig;
                 }
             } else {
                 // Add new server
-                console.log('[MCP Config] Adding AI Debug server configuration');
+                logger.info('[MCP Config] Adding AI Debug server configuration');
                 config[serverKey]['ai-debug'] = aiDebugServerConfig;
             }
 
@@ -204,11 +205,11 @@ export class MCPConfigManager {
                 };
             }
         } catch (error: any) {
-            console.error('[MCP Config] Error during configuration:', error);
+            logger.error('[MCP Config] Error during configuration:', error);
             return {
                 success: false,
                 message: `❌ Error configuring ${ideName} MCP: ${error.message}\n\n` +
-                        `Please check the Extension Host output for details.`,
+                        `Run "Killer Bug: Show Output" for details.`,
                 configPath: this.configPath
             };
         }
@@ -239,7 +240,7 @@ export class MCPConfigManager {
                 configPath: this.configPath
             };
         } catch (error) {
-            console.error('[MCP Config] Error getting status:', error);
+            logger.error('[MCP Config] Error getting status:', error);
             return {
                 configured: false,
                 configPath: this.configPath
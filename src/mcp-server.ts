@@ -17,22 +17,119 @@
  */
 
 import express from 'express';
-import type { Express, Request, Response } from 'express';
-import { handleSessionTool } from './tools/session';
-import { handleBreakpointTool } from './tools/breakpoints';
-import { handleExecutionTool } from './tools/execution';
-import { handleInspectionTool } from './tools/inspection';
+import type { Express, Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { toolRegistry, ToolContext } from './tools';
+import { clientSessions } from './client-sessions';
+import { debuggerControl } from './debugger-control';
 import { PortManager } from './port-manager';
+import { debugState } from './debug-state';
+import { eventStream } from './event-stream';
+import {
+    listResources,
+    listResourceTemplates,
+    readResource,
+    getResourceTool,
+    isKnownResource,
+    subscribeResource,
+    unsubscribeResource,
+    clearResourceSubscriptions,
+    watchResourceChanges
+} from './resources';
+import { listPrompts, getPrompt } from './prompts';
+import { CancelledError, raceWithSignal, throwIfCancelled } from './cancellation';
+import { AuditLog, AuditOutcome, auditLog } from './audit-log';
+import { logger, LogLevel } from './logger';
+import { getToolPolicy, confirmToolCall } from './tool-policy';
+import { metrics } from './metrics';
 
 let httpServer: any = null;
 let currentPort: number = 3100;
+let currentHost: string = '127.0.0.1';
+let authToken: string | null = null;
+let debugEventSubscription: { dispose(): void } | null = null;
+let resourceChangeSubscription: { dispose(): void } | null = null;
+let sessionCloseSubscription: { dispose(): void } | null = null;
+let logSubscription: { dispose(): void } | null = null;
+let serverVersion: string = 'unknown';
+let projectName: string | null = null;
+let serverStartedAt: number | null = null;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// Protocol versions we can speak; the first one is preferred
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+const BLOCKED_BY_POLICY = -32003;
+const REQUEST_CANCELLED = -32800;
+
+// MCP logging levels, from least to most severe
+const MCP_LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Clients that never call logging/setLevel still get warnings and errors
+const DEFAULT_CLIENT_LOG_LEVEL = 'warning';
+
+// Minimum level each client session asked for with logging/setLevel
+const clientLogLevels: Map<string, string> = new Map();
+
+// Requests still being processed, keyed by client session and request id, so they can be cancelled
+const inFlightRequests: Map<string, AbortController> = new Map();
+
+/**
+ * Where a JSON-RPC message came from
+ */
+interface MessageContext {
+    clientSessionId: string;
+    res: Response;
+}
+
+/**
+ * Error raised while dispatching a request, sent back as a JSON-RPC error object
+ */
+class JsonRpcError extends Error {
+    constructor(public readonly code: number, message: string, public readonly data?: any) {
+        super(message);
+        this.name = 'JsonRpcError';
+    }
+}
 
 /**
  * Set the port for MCP server (called by extension)
  */
 export function setMCPPort(port: number): void {
     currentPort = port;
-    console.log(`[MCP Server] Port set to ${port}`);
+    logger.info(`[MCP Server] Port set to ${port}`);
+}
+
+/**
+ * Set the interface the MCP server binds to (default: 127.0.0.1, loopback only)
+ */
+export function setMCPHost(host: string): void {
+    currentHost = host;
+    logger.info(`[MCP Server] Host set to ${host}`);
+}
+
+/**
+ * Set the bearer token required on /mcp
+ */
+export function setMCPAuthToken(token: string): void {
+    authToken = token;
+    logger.info('[MCP Server] Authentication enabled');
+}
+
+/**
+ * Set the extension version and project name reported by initialize, /health and /metrics
+ */
+export function setMCPServerInfo(version: string, project: string): void {
+    serverVersion = version;
+    projectName = project;
 }
 
 /**
@@ -47,95 +144,149 @@ export function getMCPPort(): number {
  */
 export async function startMCPServer() {
     if (httpServer) {
-        console.log('MCP server already running on port', currentPort);
+        logger.info('MCP server already running on port', currentPort);
         return;
     }
+    if (!authToken) {
+        throw new Error('No auth token set - refusing to start an unauthenticated MCP server');
+    }
 
     // Try to find an available port if the current one is in use
     try {
         const portInUse = await PortManager.isPortInUse(currentPort);
         if (portInUse) {
-            console.log(`[MCP Server] Port ${currentPort} is in use, finding available port...`);
+            logger.info(`[MCP Server] Port ${currentPort} is in use, finding available port...`);
             const availablePort = await PortManager.findAvailablePort(currentPort);
-            console.log(`[MCP Server] Using available port: ${availablePort}`);
+            logger.info(`[MCP Server] Using available port: ${availablePort}`);
             currentPort = availablePort;
         }
     } catch (error) {
-        console.warn('[MCP Server] Could not check port availability:', error);
+        logger.warn('[MCP Server] Could not check port availability:', error);
     }
 
+    serverStartedAt = Date.now();
+    metrics.reset();
+
     // Create Express app
     const app: Express = express();
     
     app.use(express.json());
-    app.use((req, res, next) => {
-        res.header('Access-Control-Allow-Origin', '*');
-        res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-        res.header('Access-Control-Allow-Headers', 'Content-Type');
-        next();
+
+    // No CORS headers are sent, so browsers can't read responses cross-origin.
+    // Requests coming from a non-local web page are rejected outright.
+    app.use(rejectForeignOrigins);
+
+    // Every MCP request must carry the project's bearer token
+    app.use('/mcp', requireAuthToken);
+
+    // ...and, after initialize, the Mcp-Session-Id the server handed out
+    app.use('/mcp', requireClientSession);
+
+    // Push debugger events to clients listening on the SSE stream
+    debugEventSubscription = debugState.onDidDebugEvent((event) => {
+        eventStream.broadcast('notifications/killerBug/debugEvent', event);
     });
 
-    // Main MCP endpoint - handles all JSON-RPC requests
-    app.post('/mcp', async (req: Request, res: Response) => {
-        try {
-            const request = req.body;
-            
-            // Handle different MCP methods
-            if (request.method === 'initialize') {
-                res.json({
-                    jsonrpc: '2.0',
-                    id: request.id,
-                    result: {
-                        protocolVersion: '2024-11-05',
-                        capabilities: {
-                            tools: {}
-                        },
-                        serverInfo: {
-                            name: 'killer-bug-ai-debugger',
-                            version: '0.1.0'
-                        }
-                    }
-                });
-            } else if (request.method === 'notifications/initialized') {
-                // Acknowledge the initialized notification
-                res.status(200).json({
-                    jsonrpc: '2.0',
-                    result: {}
-                });
-            } else if (request.method === 'tools/list') {
-                const tools = getToolsList();
-                res.json({
-                    jsonrpc: '2.0',
-                    id: request.id,
-                    result: { tools }
-                });
-            } else if (request.method === 'tools/call') {
-                const result = await handleToolCall(request.params);
-                res.json({
-                    jsonrpc: '2.0',
-                    id: request.id,
-                    result
-                });
-            } else {
-                res.status(400).json({
-                    jsonrpc: '2.0',
-                    id: request.id,
-                    error: {
-                        code: -32601,
-                        message: `Method not found: ${request.method}`
-                    }
-                });
+    // Tell subscribed clients when a debug state resource changes
+    resourceChangeSubscription = watchResourceChanges((clientSessionId, uri) => {
+        eventStream.sendToSession(clientSessionId, 'notifications/resources/updated', { uri });
+    });
+
+    // Forward extension diagnostics to each client at the level it asked for
+    logSubscription = logger.onDidLog((record) => {
+        const level = toMcpLogLevel(record.level);
+        const sessions = clientSessions.list();
+        for (const session of sessions) {
+            const minimum = clientLogLevels.get(session.id) ?? DEFAULT_CLIENT_LOG_LEVEL;
+            if (MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(minimum)) {
+                continue;
+            }
+
+            // Session ids are credentials - never show a client the id of another one
+            let data = record.message;
+            for (const other of sessions) {
+                if (other.id !== session.id) {
+                    data = data.split(other.id).join('<other session>');
+                }
             }
-        } catch (error: any) {
-            res.status(500).json({
+            eventStream.sendToSession(session.id, 'notifications/message', {
+                level,
+                logger: 'killer-bug',
+                data
+            });
+        }
+    });
+
+    // Drop per-client state when a client session ends
+    sessionCloseSubscription = clientSessions.onDidCloseSession((clientSessionId) => {
+        eventStream.closeSession(clientSessionId);
+        clearResourceSubscriptions(clientSessionId);
+        clientLogLevels.delete(clientSessionId);
+    });
+
+    // Streamable HTTP: server-to-client notification stream
+    app.get('/mcp', (req: Request, res: Response) => {
+        const accept = req.headers.accept || '';
+        if (!accept.includes('text/event-stream')) {
+            res.status(406).json({
                 jsonrpc: '2.0',
-                id: req.body.id,
                 error: {
-                    code: -32603,
-                    message: error.message
+                    code: -32000,
+                    message: 'Not Acceptable: client must accept text/event-stream'
                 }
             });
+            return;
         }
+        eventStream.addClient(res, res.locals.clientSessionId);
+    });
+
+    // Streamable HTTP: client ends its session
+    app.delete('/mcp', (req: Request, res: Response) => {
+        clientSessions.delete(res.locals.clientSessionId);
+        res.status(200).end();
+    });
+
+    // Main MCP endpoint - handles JSON-RPC requests, notifications and batches
+    app.post('/mcp', async (req: Request, res: Response) => {
+        const body = req.body;
+        const context: MessageContext = {
+            clientSessionId: res.locals.clientSessionId,
+            res
+        };
+
+        if (Array.isArray(body)) {
+            if (body.length === 0) {
+                res.status(400).json(errorResponse(null, INVALID_REQUEST, 'Invalid Request: empty batch'));
+                return;
+            }
+
+            const responses = (await Promise.all(body.map(message => handleMessage(message, context, true))))
+                .filter(response => response !== null);
+
+            // A batch of notifications and responses gets no body
+            if (responses.length === 0) {
+                res.status(202).end();
+            } else {
+                res.json(responses);
+            }
+            return;
+        }
+
+        const response = await handleMessage(body, context, false);
+        if (response === null) {
+            res.status(202).end();
+        } else {
+            res.json(response);
+        }
+    });
+
+    // Malformed JSON never reaches the route handlers - answer with a JSON-RPC parse error
+    app.use('/mcp', (error: any, req: Request, res: Response, next: NextFunction) => {
+        if (error?.type === 'entity.parse.failed') {
+            res.status(400).json(errorResponse(null, PARSE_ERROR, 'Parse error'));
+            return;
+        }
+        next(error);
     });
 
     // Health check endpoint
@@ -143,189 +294,555 @@ export async function startMCPServer() {
         res.json({ 
             status: 'ok', 
             server: 'killer-bug-ai-debugger',
-            version: '0.2.0',
-            tools: 17,
-            endpoint: '/mcp'
+            version: serverVersion,
+            project: projectName,
+            uptimeSeconds: getUptimeSeconds(),
+            tools: toolRegistry.size,
+            endpoint: '/mcp',
+            debugSession: {
+                active: debugState.isActive(),
+                paused: debugState.getCurrentSession()?.isPaused ?? false,
+                sessions: debugState.listSessions().length
+            },
+            clients: {
+                sessions: clientSessions.size,
+                eventStreams: eventStream.getClientCount()
+            },
+            toolCalls: metrics.getTotalToolCalls(),
+            lastToolCall: metrics.getLastToolCall()
         });
     });
 
+    // Prometheus metrics endpoint
+    app.get('/metrics', (req: Request, res: Response) => {
+        const body = metrics.render(
+            {
+                uptimeSeconds: getUptimeSeconds(),
+                clientSessions: clientSessions.size,
+                eventStreams: eventStream.getClientCount(),
+                debugSessionActive: debugState.isActive(),
+                debugSessionPaused: debugState.getCurrentSession()?.isPaused ?? false
+            },
+            { project: projectName ?? '', port: String(currentPort) }
+        );
+        res.type('text/plain; version=0.0.4').send(body);
+    });
+
     // Start HTTP server
-    httpServer = app.listen(currentPort, () => {
-        console.log(`Killer Bug AI Debugger listening on http://localhost:${currentPort}`);
-        console.log(`MCP endpoint: POST http://localhost:${currentPort}/mcp`);
-        console.log(`Health check: GET http://localhost:${currentPort}/health`);
+    if (!isLoopbackHost(currentHost)) {
+        logger.warn(`[MCP Server] Binding to non-loopback interface ${currentHost} - the debugger is reachable from the network`);
+    }
+    httpServer = app.listen(currentPort, currentHost, () => {
+        logger.info(`Killer Bug AI Debugger listening on http://${currentHost}:${currentPort}`);
+        logger.info(`MCP endpoint: POST http://localhost:${currentPort}/mcp`);
+        logger.info(`Event stream: GET http://localhost:${currentPort}/mcp (text/event-stream)`);
+        logger.info(`Health check: GET http://localhost:${currentPort}/health`);
+        logger.info(`Metrics: GET http://localhost:${currentPort}/metrics`);
     });
 }
 
 /**
- * Get list of all available tools
+ * Reject requests sent by web pages that are not served from this machine
+ * (protects against drive-by requests and DNS rebinding)
  */
-function getToolsList() {
-    return [
-        {
-            name: 'debug_start',
-            description: 'Start a debug session for a file. WORKFLOW: Call debug_listConfigs first to check for existing launch.json configurations. Prefer debug_startWithConfig when available. Use this only when no suitable configuration exists.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    file: { type: 'string', description: 'Absolute path to the file to debug' },
-                    type: { type: 'string', description: 'Debug type (e.g., "python", "node"). Auto-detected if not specified.' },
-                    stopOnEntry: { type: 'boolean', description: 'Stop at the first line of the program' }
-                },
-                required: ['file']
+function rejectForeignOrigins(req: Request, res: Response, next: NextFunction): void {
+    const origin = req.headers.origin;
+    if (origin && !isLocalOrigin(origin)) {
+        logger.warn(`[MCP Server] Rejected request from origin: ${origin}`);
+        res.status(403).json({
+            jsonrpc: '2.0',
+            error: {
+                code: -32000,
+                message: 'Forbidden: cross-origin requests are not allowed'
             }
-        },
-        {
-            name: 'debug_stop',
-            description: 'Stop the current debug session. CLEANUP: Remove all breakpoints with debug_listBreakpoints before stopping to ensure clean state.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_getStatus',
-            description: 'Get current debug session status (whether paused/running, current line, function, etc.).',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_listConfigs',
-            description: 'List all debug configurations from launch.json in the workspace. WORKFLOW: Use this to discover existing debug configurations before using debug_start or debug_attach. Prefer existing configs when available.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_startWithConfig',
-            description: 'PREFERRED METHOD: Start debugging using an existing named configuration from launch.json. This is the recommended approach over debug_start or debug_attach. Always call debug_listConfigs first to see available configurations.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    configName: { type: 'string', description: 'Name of the debug configuration from launch.json' },
-                    folder: { type: 'string', description: 'Workspace folder name (optional, uses first if not specified)' }
-                },
-                required: ['configName']
+        });
+        return;
+    }
+    next();
+}
+
+/**
+ * Require "Authorization: Bearer <token>"
+ */
+function requireAuthToken(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    const provided = Buffer.from(match ? match[1] : '');
+    const expected = Buffer.from(authToken ?? '');
+
+    if (!authToken || provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+        res.status(401)
+            .header('WWW-Authenticate', 'Bearer')
+            .json({
+                jsonrpc: '2.0',
+                error: {
+                    code: -32001,
+                    message: 'Unauthorized: missing or invalid bearer token (see headers in .vscode/mcp.json or .cursor/mcp.json)'
+                }
+            });
+        return;
+    }
+    next();
+}
+
+/**
+ * Resolve the client session from the Mcp-Session-Id header (initialize creates one)
+ */
+function requireClientSession(req: Request, res: Response, next: NextFunction): void {
+    if (req.method === 'POST' && req.body?.method === 'initialize') {
+        next();
+        return;
+    }
+
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+        res.status(400).json({
+            jsonrpc: '2.0',
+            id: null,
+            error: {
+                code: -32000,
+                message: 'Bad Request: Mcp-Session-Id header is required (send initialize first)'
             }
-        },
-        {
-            name: 'debug_attach',
-            description: 'Attach to a running process for remote debugging (e.g., FastAPI with debugpy listening on a port). FALLBACK ONLY: Use this only when no suitable launch.json configuration exists. Requires the target application to be already running with debugger listening.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    type: { type: 'string', description: 'Debugger type: debugpy, python, node, pwa-node (default: debugpy)' },
-                    host: { type: 'string', description: 'Host to connect to (default: localhost)' },
-                    port: { type: 'number', description: 'Port number the debugger is listening on' },
-                    pathMappings: { type: 'object', description: 'Path mappings for remote/container debugging (optional)' },
-                    name: { type: 'string', description: 'Custom name for the debug session (optional)' }
-                },
-                required: ['port']
+        });
+        return;
+    }
+
+    if (!clientSessions.get(sessionId)) {
+        // 404 tells the client to start a new session with initialize
+        res.status(404).json({
+            jsonrpc: '2.0',
+            id: null,
+            error: {
+                code: -32001,
+                message: 'Session not found'
             }
-        },
-        {
-            name: 'debug_setBreakpoint',
-            description: 'Set a breakpoint at a specific line in a file. IMPORTANT CLEANUP REQUIRED: You MUST track all breakpoints you create and remove them before ending the debug session using debug_removeBreakpoint. Failure to clean up will cause unexpected breaks in future sessions. NOTE: You may keep breakpoints if you plan to reuse them across multiple debug sessions for the same investigation.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    file: { type: 'string', description: 'Absolute path to the file' },
-                    line: { type: 'number', description: 'Line number (1-based)' },
-                    condition: { type: 'string', description: 'Optional condition expression' }
+        });
+        return;
+    }
+
+    clientSessions.touch(sessionId);
+    res.locals.clientSessionId = sessionId;
+    next();
+}
+
+/**
+ * Origins of local tools (VS Code webviews, localhost pages) are allowed
+ */
+function isLocalOrigin(origin: string): boolean {
+    if (origin.startsWith('vscode-')) {
+        return true;
+    }
+    try {
+        return isLoopbackHost(new URL(origin).hostname);
+    } catch {
+        return false;
+    }
+}
+
+function isLoopbackHost(host: string): boolean {
+    return host === 'localhost' || host === '127.0.0.1' || host === '::1' || host === '[::1]';
+}
+
+/**
+ * Handle one JSON-RPC message; returns the response, or null when none is due
+ * (notifications and responses to server requests)
+ */
+async function handleMessage(message: any, context: MessageContext, inBatch: boolean): Promise<any | null> {
+    if (!isValidMessage(message)) {
+        const id = isValidId(message?.id) ? message.id : null;
+        return errorResponse(id, INVALID_REQUEST, 'Invalid Request');
+    }
+
+    // A response to a request we sent - the server doesn't send any, so nothing to do
+    if (message.method === undefined) {
+        return null;
+    }
+
+    if (message.id === undefined) {
+        handleNotification(message, context);
+        return null;
+    }
+
+    if (inBatch && message.method === 'initialize') {
+        return errorResponse(message.id, INVALID_REQUEST, 'Invalid Request: initialize must not be part of a batch');
+    }
+
+    const key = inFlightKey(context.clientSessionId, message.id);
+    const controller = new AbortController();
+    inFlightRequests.set(key, controller);
+
+    try {
+        const result = await dispatchRequest(message, context, controller.signal);
+        return {
+            jsonrpc: '2.0',
+            id: message.id,
+            result
+        };
+    } catch (error: any) {
+        if (error instanceof JsonRpcError) {
+            return errorResponse(message.id, error.code, error.message, error.data);
+        }
+        if (error instanceof CancelledError) {
+            return errorResponse(message.id, REQUEST_CANCELLED, error.message);
+        }
+        return errorResponse(message.id, INTERNAL_ERROR, error.message);
+    } finally {
+        // Only remove our own entry - a client may reuse an id once it got its answer
+        if (inFlightRequests.get(key) === controller) {
+            inFlightRequests.delete(key);
+        }
+    }
+}
+
+/**
+ * Dispatch a JSON-RPC request to its method and return the result
+ */
+async function dispatchRequest(request: any, context: MessageContext, signal: AbortSignal): Promise<any> {
+    const params = request.params ?? {};
+    const clientSessionId = context.clientSessionId;
+
+    switch (request.method) {
+        case 'initialize': {
+            const session = clientSessions.create(params.clientInfo);
+            context.res.setHeader('Mcp-Session-Id', session.id);
+
+            // Echo the client's version if we support it, otherwise offer our latest
+            const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion)
+                ? params.protocolVersion
+                : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+            return {
+                protocolVersion,
+                capabilities: {
+                    tools: {},
+                    resources: {
+                        subscribe: true,
+                        listChanged: false
+                    },
+                    prompts: {
+                        listChanged: false
+                    },
+                    logging: {}
                 },
-                required: ['file', 'line']
+                serverInfo: {
+                    name: 'killer-bug-ai-debugger',
+                    version: serverVersion
+                }
+            };
+        }
+
+        case 'ping':
+            return {};
+
+        case 'tools/list':
+            return { tools: toolRegistry.list() };
+
+        case 'tools/call':
+            if (typeof params.name !== 'string') {
+                throw new JsonRpcError(INVALID_PARAMS, 'Invalid params: tool name is required');
             }
-        },
-        {
-            name: 'debug_removeBreakpoint',
-            description: 'Remove a breakpoint from a specific line. CRITICAL: Always remove breakpoints you set during debugging before ending the final session. This is mandatory for clean state management. Use debug_listBreakpoints to verify all breakpoints that you added are removed before ending session. NOTE: You may temporarily keep breakpoints between related debug sessions if continuing the same investigation.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    file: { type: 'string', description: 'Absolute path to the file' },
-                    line: { type: 'number', description: 'Line number (1-based)' }
-                },
-                required: ['file', 'line']
+            return handleToolCall(params, { clientSessionId, signal });
+
+        case 'resources/list':
+            return { resources: listResources() };
+
+        case 'resources/templates/list':
+            return { resourceTemplates: listResourceTemplates() };
+
+        case 'resources/read': {
+            const toolName = params.uri ? getResourceTool(params.uri) : null;
+            if (!toolName) {
+                throw resourceNotFound(params.uri);
             }
-        },
-        {
-            name: 'debug_listBreakpoints',
-            description: 'List all breakpoints. Use this to track which breakpoints are active and verify cleanup.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_continue',
-            description: 'Continue execution until next breakpoint. PREREQUISITE: Debugger must be paused (at breakpoint or after debug_pause). Will fail if debugger is running. IMPORTANT PLANNING: Before continuing, ensure you have breakpoints strategically placed if you want to catch the intended code path. Else you might miss your debugging target and has to retrigger it.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_stepOver',
-            description: 'Step over the current line (execute without entering functions). PREREQUISITE: Debugger must be paused.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_stepInto',
-            description: 'Step into function call on current line. PREREQUISITE: Debugger must be paused and current line must contain a function call. IMPORTANT: Only step into if you want to debug that specific function. Stepping into system/library functions will lose you in framework code. Instead: set breakpoints at your target locations and use debug_continue, or use debug_stepOver to skip uninteresting functions.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_stepOut',
-            description: 'Step out of current function (resume until function returns). PREREQUISITE: Debugger must be paused inside a function. Use this to escape deep call stacks. The execution will continue until the current function returns, then pause at the return location.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_pause',
-            description: 'Pause execution at current location. Use when debugger is running and you need to stop it to inspect state. Does not require breakpoints. WORKFLOW: Use this only when: 1) Code is actively running and you need to inspect mid-execution, 2) You want to interrupt a long-running operation, 3) You\'re debugging infinite loops. For targeted debugging, prefer setting breakpoints instead of relying on pause.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_getStackTrace',
-            description: 'Get the current call stack with function names, file paths, and line numbers. PREREQUISITE: Debugger must be paused. Returns stack frames showing the execution path. WORKFLOW: Always call this BEFORE debug_getVariables to identify which frame you want to inspect. Returns frameId values needed for other inspection tools.',
-            inputSchema: { type: 'object', properties: {} }
-        },
-        {
-            name: 'debug_getVariables',
-            description: 'Get variables in the current scope or specified frame. PREREQUISITE: Debugger must be paused. WORKFLOW: Call debug_getStackTrace first to get available frameIds. Specify a frameId to inspect different stack levels. Default scope shows local variables; use scope filter for "global" or "static" if available.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    frameId: { type: 'number', description: 'Stack frame ID (optional, defaults to top frame)' },
-                    scope: { type: 'string', description: 'Scope filter: "local", "global", etc. (optional)' }
-                }
+            return handleResourceRead(params.uri, toolName, { clientSessionId, signal });
+        }
+
+        case 'resources/subscribe':
+        case 'resources/unsubscribe':
+            if (!params.uri || !isKnownResource(params.uri)) {
+                throw resourceNotFound(params.uri);
             }
-        },
-        {
-            name: 'debug_evaluate',
-            description: 'Evaluate an expression in the current debug context (e.g., variable values, function results). PREREQUISITE: Debugger must be paused. WORKFLOW: Use this cleverly to discover extra context. CRITICAL: Only evaluate SAFE READ operations. If your expression might have side effects (call functions that modify state, access external APIs, etc.), you MUST ask the user for permission BEFORE evaluating.',
-            inputSchema: {
-                type: 'object',
-                properties: {
-                    expression: { type: 'string', description: 'Expression to evaluate' },
-                    frameId: { type: 'number', description: 'Stack frame ID (optional, defaults to top frame)' },
-                    context: { type: 'string', description: 'Evaluation context: "watch", "repl", "hover" (optional)' }
-                },
-                required: ['expression']
+            if (request.method === 'resources/subscribe') {
+                subscribeResource(clientSessionId, params.uri);
+            } else {
+                unsubscribeResource(clientSessionId, params.uri);
+            }
+            return {};
+
+        case 'logging/setLevel':
+            if (!MCP_LOG_LEVELS.includes(params.level)) {
+                throw new JsonRpcError(INVALID_PARAMS, `Invalid params: level must be one of ${MCP_LOG_LEVELS.join(', ')}`);
+            }
+            clientLogLevels.set(clientSessionId, params.level);
+            return {};
+
+        case 'prompts/list':
+            return { prompts: listPrompts() };
+
+        case 'prompts/get': {
+            const promptArgs = params.arguments ?? {};
+            if (typeof promptArgs !== 'object' || Array.isArray(promptArgs)) {
+                throw new JsonRpcError(INVALID_PARAMS, 'Invalid params: arguments must be an object mapping argument names to strings');
+            }
+            try {
+                return getPrompt(params.name, promptArgs);
+            } catch (error: any) {
+                throw new JsonRpcError(INVALID_PARAMS, error.message);
+            }
+        }
+
+        default:
+            throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+}
+
+/**
+ * Handle a JSON-RPC notification (no response is sent)
+ */
+function handleNotification(notification: any, context: MessageContext): void {
+    switch (notification.method) {
+        case 'notifications/initialized':
+            logger.info(`[MCP Server] Session ${context.clientSessionId} initialized`);
+            break;
+
+        case 'notifications/cancelled': {
+            const requestId = notification.params?.requestId;
+            const controller = isValidId(requestId)
+                ? inFlightRequests.get(inFlightKey(context.clientSessionId, requestId))
+                : undefined;
+            if (controller) {
+                logger.info(`[MCP Server] Cancelling request ${requestId}${notification.params?.reason ? `: ${notification.params.reason}` : ''}`);
+                controller.abort(notification.params?.reason);
+            }
+            break;
+        }
+
+        default:
+            // Unknown notifications are ignored, as JSON-RPC requires
+            break;
+    }
+}
+
+/**
+ * Check the JSON-RPC 2.0 envelope of a request, notification or response
+ */
+function isValidMessage(message: any): boolean {
+    if (!message || typeof message !== 'object' || Array.isArray(message) || message.jsonrpc !== '2.0') {
+        return false;
+    }
+    if (message.id !== undefined && !isValidId(message.id)) {
+        return false;
+    }
+    if (message.method === undefined) {
+        // Response: must carry an id and a result or an error
+        return message.id !== undefined && ('result' in message || 'error' in message);
+    }
+    return typeof message.method === 'string';
+}
+
+function isValidId(id: any): boolean {
+    return typeof id === 'string' || typeof id === 'number' || id === null;
+}
+
+function inFlightKey(clientSessionId: string | undefined, requestId: any): string {
+    return `${clientSessionId ?? ''}:${JSON.stringify(requestId)}`;
+}
+
+/**
+ * Map a logger level to the matching MCP logging level
+ */
+function toMcpLogLevel(level: LogLevel): string {
+    switch (level) {
+        case 'trace':
+        case 'debug':
+            return 'debug';
+        case 'warn':
+            return 'warning';
+        default:
+            return level;
+    }
+}
+
+function getUptimeSeconds(): number {
+    return serverStartedAt ? Math.floor((Date.now() - serverStartedAt) / 1000) : 0;
+}
+
+/**
+ * Build a JSON-RPC error response
+ */
+function errorResponse(id: any, code: number, message: string, data?: any) {
+    return {
+        jsonrpc: '2.0',
+        id,
+        error: data === undefined ? { code, message } : { code, message, data }
+    };
+}
+
+/**
+ * JSON-RPC error for an unknown resource URI
+ */
+function resourceNotFound(uri: string | undefined): JsonRpcError {
+    return new JsonRpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+}
+
+/**
+ * Record a tool call in the metrics and the audit log once its outcome is known
+ */
+function createAuditRecorder(name: string, args: any, context: ToolContext) {
+    const startedAt = Date.now();
+    return (outcome: AuditOutcome, details: { result?: any; error?: string }) => {
+        // Unknown names share one label so clients can't create unbounded metric series
+        metrics.recordToolCall(toolRegistry.get(name) ? name : 'unknown', outcome, Date.now() - startedAt);
+        auditLog.record({
+            timestamp: new Date(startedAt).toISOString(),
+            clientSessionId: context.clientSessionId,
+            clientName: clientSessions.get(context.clientSessionId)?.clientName,
+            tool: name,
+            arguments: args,
+            outcome,
+            durationMs: Date.now() - startedAt,
+            result: details.result === undefined ? undefined : AuditLog.summarize(details.result),
+            error: details.error
+        });
+    };
+}
+
+/**
+ * Read a resource as a call of the tool it mirrors: the tool's policy applies,
+ * and the read is audited and counted under the tool's name
+ */
+async function handleResourceRead(uri: string, toolName: string, context: ToolContext) {
+    const tool = toolRegistry.get(toolName)!;
+    const audit = createAuditRecorder(toolName, { resource: uri }, context);
+
+    try {
+        const policy = getToolPolicy(tool);
+        if (policy.decision === 'deny') {
+            audit('rejected', { error: policy.reason });
+            throw new JsonRpcError(BLOCKED_BY_POLICY, policy.reason!, { uri, tool: toolName });
+        }
+        if (policy.decision === 'ask') {
+            const clientName = clientSessions.get(context.clientSessionId)?.clientName || 'An AI client';
+            const approved = await raceWithSignal(confirmToolCall(tool, { resource: uri }, clientName), context.signal);
+            if (!approved) {
+                audit('rejected', { error: 'Rejected by the user' });
+                throw new JsonRpcError(BLOCKED_BY_POLICY, `The user rejected reading ${uri}. Do not retry it without asking the user.`, { uri, tool: toolName });
             }
         }
-    ];
+
+        const data = await raceWithSignal(readResource(uri), context.signal);
+        if (data?.success === false) {
+            audit('failure', { result: data, error: data.error });
+        } else {
+            audit('success', { result: data });
+        }
+
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: 'application/json',
+                    text: JSON.stringify(data, null, 2)
+                }
+            ]
+        };
+    } catch (error: any) {
+        if (error instanceof JsonRpcError) {
+            throw error;
+        }
+        audit(error instanceof CancelledError ? 'cancelled' : 'error', { error: error.message });
+        throw error;
+    }
 }
 
 /**
  * Handle tool call requests
  */
-async function handleToolCall(params: any) {
+async function handleToolCall(params: any, context: ToolContext) {
     const { name, arguments: args } = params;
+    const toolArgs = args ?? {};
+
+    // Every call is recorded, whichever way it ends
+    const audit = createAuditRecorder(name, toolArgs, context);
 
     try {
-        let result: any;
-
-        // Route to appropriate tool handler
-        if (name.startsWith('debug_') && ['debug_start', 'debug_stop', 'debug_getStatus', 'debug_listConfigs', 'debug_startWithConfig', 'debug_attach'].includes(name)) {
-            result = await handleSessionTool(name, args || {});
-        } else if (name.startsWith('debug_') && ['debug_setBreakpoint', 'debug_removeBreakpoint', 'debug_listBreakpoints'].includes(name)) {
-            result = await handleBreakpointTool(name, args || {});
-        } else if (name.startsWith('debug_') && ['debug_continue', 'debug_stepOver', 'debug_stepInto', 'debug_stepOut', 'debug_pause'].includes(name)) {
-            result = await handleExecutionTool(name, args || {});
-        } else if (name.startsWith('debug_') && ['debug_getStackTrace', 'debug_getVariables', 'debug_evaluate'].includes(name)) {
-            result = await handleInspectionTool(name, args || {});
-        } else {
+        const tool = toolRegistry.get(name);
+        if (!tool) {
             throw new Error(`Unknown tool: ${name}`);
         }
 
+        // Validate arguments against the tool's schema before dispatching
+        const issues = toolRegistry.validate(name, toolArgs);
+        if (issues.length > 0) {
+            audit('rejected', { error: `Invalid arguments: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}` });
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: false,
+                            error: `Invalid arguments for ${name}`,
+                            invalidArguments: issues
+                        }, null, 2)
+                    }
+                ],
+                isError: true
+            };
+        }
+
+        // Read-only mode and the user's per-tool policy
+        const policy = getToolPolicy(tool);
+        if (policy.decision === 'deny') {
+            audit('rejected', { error: policy.reason });
+            return policyRejection(policy.reason!);
+        }
+
+        // While another client holds the control lease, this one may only inspect
+        if (tool.effect !== 'inspect' && !debuggerControl.canModify(context.clientSessionId)) {
+            const holder = debuggerControl.describeHolder();
+            audit('rejected', { error: `Debugger is controlled by another client (${holder?.clientName})` });
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: false,
+                            error: `Debugger is controlled by another client (${holder?.clientName}). Only inspection tools are available until it calls debug_releaseControl.`,
+                            controlledBy: holder
+                        }, null, 2)
+                    }
+                ],
+                isError: true
+            };
+        }
+
+        // Let the user see and approve the exact call before it runs
+        if (policy.decision === 'ask') {
+            const clientName = clientSessions.get(context.clientSessionId)?.clientName || 'An AI client';
+            const approved = await raceWithSignal(confirmToolCall(tool, toolArgs, clientName), context.signal);
+            if (!approved) {
+                audit('rejected', { error: 'Rejected by the user' });
+                return policyRejection(`The user rejected this ${name} call. Do not retry it without asking the user.`);
+            }
+        }
+
+        // Execution-changing calls from different clients must not interleave.
+        // A call cancelled while it waits for its turn never runs.
+        const run = () => {
+            throwIfCancelled(context.signal);
+            return tool.handler(toolArgs, context);
+        };
+        const result = await raceWithSignal(
+            tool.effect === 'execute' ? debuggerControl.runExclusive(run) : run(),
+            context.signal
+        );
+
+        if (result?.success === false) {
+            audit('failure', { result, error: result.error });
+        } else {
+            audit('success', { result });
+        }
+
         return {
             content: [
                 {
@@ -335,6 +852,12 @@ async function handleToolCall(params: any) {
             ]
         };
     } catch (error: any) {
+        // Cancellation is reported as a JSON-RPC error, not as a tool result
+        if (error instanceof CancelledError) {
+            audit('cancelled', { error: error.message });
+            throw error;
+        }
+        audit('error', { error: error.message });
         return {
             content: [
                 {
@@ -347,6 +870,25 @@ async function handleToolCall(params: any) {
     }
 }
 
+/**
+ * Tool result for a call blocked by the tool policy
+ */
+function policyRejection(reason: string) {
+    return {
+        content: [
+            {
+                type: 'text',
+                text: JSON.stringify({
+                    success: false,
+                    error: reason,
+                    blockedByPolicy: true
+                }, null, 2)
+            }
+        ],
+        isError: true
+    };
+}
+
 /**
  * Check if MCP server is currently running
  */
@@ -359,8 +901,20 @@ export function isServerRunning(): boolean {
  */
 export function stopMCPServer() {
     if (httpServer) {
+        // Open SSE streams would otherwise keep the server from closing
+        eventStream.closeAll();
+        debugEventSubscription?.dispose();
+        debugEventSubscription = null;
+        resourceChangeSubscription?.dispose();
+        resourceChangeSubscription = null;
+        clientSessions.clear();
+        sessionCloseSubscription?.dispose();
+        sessionCloseSubscription = null;
+        logSubscription?.dispose();
+        logSubscription = null;
         httpServer.close();
         httpServer = null;
-        console.log('MCP server stopped');
+        serverStartedAt = null;
+        logger.info('MCP server stopped');
     }
 }
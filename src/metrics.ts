@@ -0,0 +1,200 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { AuditOutcome } from './audit-log';
+
+/**
+ * The most recent tool call, as reported by /health
+ */
+export interface LastToolCall {
+    tool: string;
+    outcome: AuditOutcome;
+    durationMs: number;
+    timestamp: string;
+}
+
+/**
+ * Point-in-time values rendered as gauges alongside the counters
+ */
+export interface MetricsGauges {
+    uptimeSeconds: number;
+    clientSessions: number;
+    eventStreams: number;
+    debugSessionActive: boolean;
+    debugSessionPaused: boolean;
+}
+
+interface ToolStats {
+    outcomes: Map<AuditOutcome, number>;
+    bucketCounts: number[];
+    durationSum: number;
+    count: number;
+}
+
+/**
+ * Metrics - per-tool call counters and latency histograms in Prometheus text format
+ */
+export class Metrics {
+    private static instance: Metrics;
+
+    private tools: Map<string, ToolStats> = new Map();
+    private lastToolCall: LastToolCall | null = null;
+
+    // Histogram bucket upper bounds, in seconds
+    private static readonly DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+    private constructor() {}
+
+    static getInstance(): Metrics {
+        if (!Metrics.instance) {
+            Metrics.instance = new Metrics();
+        }
+        return Metrics.instance;
+    }
+
+    /**
+     * Count a finished tool call
+     */
+    recordToolCall(tool: string, outcome: AuditOutcome, durationMs: number): void {
+        let stats = this.tools.get(tool);
+        if (!stats) {
+            stats = {
+                outcomes: new Map(),
+                bucketCounts: Metrics.DURATION_BUCKETS.map(() => 0),
+                durationSum: 0,
+                count: 0
+            };
+            this.tools.set(tool, stats);
+        }
+
+        const seconds = durationMs / 1000;
+        stats.outcomes.set(outcome, (stats.outcomes.get(outcome) ?? 0) + 1);
+        Metrics.DURATION_BUCKETS.forEach((bound, index) => {
+            if (seconds <= bound) {
+                stats!.bucketCounts[index]++;
+            }
+        });
+        stats.durationSum += seconds;
+        stats.count++;
+
+        this.lastToolCall = {
+            tool,
+            outcome,
+            durationMs,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    /**
+     * The most recent tool call, or null if none was made yet
+     */
+    getLastToolCall(): LastToolCall | null {
+        return this.lastToolCall;
+    }
+
+    /**
+     * Total number of tool calls so far
+     */
+    getTotalToolCalls(): number {
+        let total = 0;
+        for (const stats of this.tools.values()) {
+            total += stats.count;
+        }
+        return total;
+    }
+
+    /**
+     * Render all metrics in the Prometheus text exposition format
+     */
+    render(gauges: MetricsGauges, labels: Record<string, string>): string {
+        const lines: string[] = [];
+        const withLabels = (extra: Record<string, string> = {}) => formatLabels({ ...labels, ...extra });
+
+        lines.push('# HELP killerbug_up Whether the Killer Bug MCP server is running.');
+        lines.push('# TYPE killerbug_up gauge');
+        lines.push(`killerbug_up${withLabels()} 1`);
+
+        lines.push('# HELP killerbug_uptime_seconds Seconds since the MCP server started.');
+        lines.push('# TYPE killerbug_uptime_seconds gauge');
+        lines.push(`killerbug_uptime_seconds${withLabels()} ${gauges.uptimeSeconds}`);
+
+        lines.push('# HELP killerbug_client_sessions Connected MCP client sessions.');
+        lines.push('# TYPE killerbug_client_sessions gauge');
+        lines.push(`killerbug_client_sessions${withLabels()} ${gauges.clientSessions}`);
+
+        lines.push('# HELP killerbug_event_streams Open server-sent event streams.');
+        lines.push('# TYPE killerbug_event_streams gauge');
+        lines.push(`killerbug_event_streams${withLabels()} ${gauges.eventStreams}`);
+
+        lines.push('# HELP killerbug_debug_session_active Whether a debug session is active.');
+        lines.push('# TYPE killerbug_debug_session_active gauge');
+        lines.push(`killerbug_debug_session_active${withLabels()} ${gauges.debugSessionActive ? 1 : 0}`);
+
+        lines.push('# HELP killerbug_debug_session_paused Whether the debug session is paused.');
+        lines.push('# TYPE killerbug_debug_session_paused gauge');
+        lines.push(`killerbug_debug_session_paused${withLabels()} ${gauges.debugSessionPaused ? 1 : 0}`);
+
+        lines.push('# HELP killerbug_tool_calls_total Tool calls by tool and outcome.');
+        lines.push('# TYPE killerbug_tool_calls_total counter');
+        for (const [tool, stats] of this.tools) {
+            for (const [outcome, count] of stats.outcomes) {
+                lines.push(`killerbug_tool_calls_total${withLabels({ tool, outcome })} ${count}`);
+            }
+        }
+
+        lines.push('# HELP killerbug_tool_errors_total Tool calls that threw or reported success: false.');
+        lines.push('# TYPE killerbug_tool_errors_total counter');
+        for (const [tool, stats] of this.tools) {
+            const errors = (stats.outcomes.get('error') ?? 0) + (stats.outcomes.get('failure') ?? 0);
+            lines.push(`killerbug_tool_errors_total${withLabels({ tool })} ${errors}`);
+        }
+
+        lines.push('# HELP killerbug_tool_call_duration_seconds Tool call latency.');
+        lines.push('# TYPE killerbug_tool_call_duration_seconds histogram');
+        for (const [tool, stats] of this.tools) {
+            Metrics.DURATION_BUCKETS.forEach((bound, index) => {
+                lines.push(`killerbug_tool_call_duration_seconds_bucket${withLabels({ tool, le: String(bound) })} ${stats.bucketCounts[index]}`);
+            });
+            lines.push(`killerbug_tool_call_duration_seconds_bucket${withLabels({ tool, le: '+Inf' })} ${stats.count}`);
+            lines.push(`killerbug_tool_call_duration_seconds_sum${withLabels({ tool })} ${stats.durationSum}`);
+            lines.push(`killerbug_tool_call_duration_seconds_count${withLabels({ tool })} ${stats.count}`);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Forget everything recorded (server restarted)
+     */
+    reset(): void {
+        this.tools.clear();
+        this.lastToolCall = null;
+    }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return '';
+    }
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
+
+// Export singleton instance
+export const metrics = Metrics.getInstance();
@@ -0,0 +1,104 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * One chunk of program output, as reported by a DAP output event
+ */
+export interface OutputEntry {
+    // Increases across all sessions, so it can be used as a "since" cursor
+    seq: number;
+    sessionId: string;
+    category: string;
+    output: string;
+    timestamp: number;
+}
+
+/**
+ * Filters for reading output back
+ */
+export interface OutputQuery {
+    since?: number;
+    categories?: string[];
+    pattern?: RegExp;
+}
+
+// Shared by every buffer so cursors stay valid when output of several sessions is merged
+let nextSeq = 1;
+
+/**
+ * Output buffer - ring buffer of a session's program output, bounded by total size
+ */
+export class OutputBuffer {
+    private entries: OutputEntry[] = [];
+    private size = 0;
+    private droppedUpTo = 0;
+
+    static readonly MAX_CHARS = 1024 * 1024;
+    static readonly MAX_ENTRIES = 10000;
+
+    constructor(private readonly sessionId: string) {}
+
+    /**
+     * Store an output event, dropping the oldest entries once the buffer is full
+     */
+    append(category: string, output: string): OutputEntry {
+        const entry: OutputEntry = {
+            seq: nextSeq++,
+            sessionId: this.sessionId,
+            category,
+            output,
+            timestamp: Date.now()
+        };
+        this.entries.push(entry);
+        this.size += output.length;
+
+        while (this.entries.length > 1 &&
+            (this.size > OutputBuffer.MAX_CHARS || this.entries.length > OutputBuffer.MAX_ENTRIES)) {
+            const dropped = this.entries.shift()!;
+            this.size -= dropped.output.length;
+            this.droppedUpTo = dropped.seq;
+        }
+        return entry;
+    }
+
+    /**
+     * Entries matching the query, oldest first
+     */
+    query(query: OutputQuery = {}): OutputEntry[] {
+        const { since = 0, categories, pattern } = query;
+        return this.entries.filter(entry =>
+            entry.seq > since &&
+            (!categories || categories.includes(entry.category)) &&
+            (!pattern || pattern.test(entry.output))
+        );
+    }
+
+    /**
+     * Whether output after the cursor was already dropped to make room
+     */
+    hasDroppedSince(since: number): boolean {
+        return this.droppedUpTo > since;
+    }
+
+    /**
+     * Sequence number of the most recent entry (0 when empty)
+     */
+    getLastSeq(): number {
+        return this.entries[this.entries.length - 1]?.seq ?? 0;
+    }
+}
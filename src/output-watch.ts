@@ -0,0 +1,162 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { debugState, DebugEvent } from './debug-state';
+import { OutputMatch } from './session-state';
+import { logger } from './logger';
+
+/**
+ * A regex watched for in program output; the program is paused when it matches
+ */
+export interface OutputWatch {
+    id: string;
+    pattern: RegExp;
+    // Session the watch is limited to (including its child sessions); null watches every session
+    sessionId: string | null;
+    // Remove the watch after its first match
+    once: boolean;
+    hitCount: number;
+    createdAt: number;
+}
+
+const MAX_MATCH_TEXT = 500;
+
+/**
+ * Output watch manager - pauses debug sessions when their output matches a watched pattern
+ */
+export class OutputWatchManager {
+    private static instance: OutputWatchManager;
+
+    private watches: Map<string, OutputWatch> = new Map();
+    private nextId = 1;
+
+    private constructor() {
+        debugState.onDidDebugEvent((event) => this.handleDebugEvent(event));
+    }
+
+    static getInstance(): OutputWatchManager {
+        if (!OutputWatchManager.instance) {
+            OutputWatchManager.instance = new OutputWatchManager();
+        }
+        return OutputWatchManager.instance;
+    }
+
+    /**
+     * Start watching for a pattern
+     */
+    add(pattern: RegExp, sessionId: string | null, once: boolean): OutputWatch {
+        const watch: OutputWatch = {
+            id: `watch-${this.nextId++}`,
+            pattern,
+            sessionId,
+            once,
+            hitCount: 0,
+            createdAt: Date.now()
+        };
+        this.watches.set(watch.id, watch);
+        logger.info(`Output watch ${watch.id} added: /${pattern.source}/${sessionId ? ` (session ${sessionId})` : ''}`);
+        return watch;
+    }
+
+    /**
+     * Stop watching; returns false for an unknown id
+     */
+    remove(watchId: string): boolean {
+        return this.watches.delete(watchId);
+    }
+
+    /**
+     * Remove every watch, returning how many there were
+     */
+    clear(): number {
+        const count = this.watches.size;
+        this.watches.clear();
+        return count;
+    }
+
+    /**
+     * All watches, oldest first
+     */
+    list(): OutputWatch[] {
+        return Array.from(this.watches.values());
+    }
+
+    /**
+     * Check output events against the watches
+     */
+    private handleDebugEvent(event: DebugEvent): void {
+        if (event.event === 'terminated') {
+            // A watch limited to a session can't match once the session is gone
+            for (const watch of this.list()) {
+                if (watch.sessionId === event.sessionId) {
+                    this.watches.delete(watch.id);
+                }
+            }
+            return;
+        }
+
+        const output = event.body?.output;
+        if (event.event !== 'output' || typeof output !== 'string' || event.body.category === 'telemetry') {
+            return;
+        }
+
+        for (const watch of this.list()) {
+            if (!this.appliesTo(watch, event.sessionId) || !watch.pattern.test(output)) {
+                continue;
+            }
+
+            watch.hitCount++;
+            if (watch.once) {
+                this.watches.delete(watch.id);
+            }
+
+            const state = debugState.getSession(event.sessionId);
+            if (!state) {
+                continue;
+            }
+            const match: OutputMatch = {
+                watchId: watch.id,
+                pattern: watch.pattern.source,
+                text: getMatchedLine(output, watch.pattern),
+                sessionId: event.sessionId,
+                timestamp: event.timestamp
+            };
+            state.pauseForOutputMatch(match);
+        }
+    }
+
+    /**
+     * Whether output of a session is covered by a watch
+     */
+    private appliesTo(watch: OutputWatch, sessionId: string): boolean {
+        return watch.sessionId === null
+            || watch.sessionId === sessionId
+            || debugState.getAncestors(sessionId).some(ancestor => ancestor.sessionId === watch.sessionId);
+    }
+}
+
+/**
+ * The line of an output chunk that matched (the whole chunk for multi-line matches)
+ */
+function getMatchedLine(output: string, pattern: RegExp): string {
+    const line = output.split(/\r?\n/).find(text => pattern.test(text)) ?? output;
+    return line.length > MAX_MATCH_TEXT ? `${line.slice(0, MAX_MATCH_TEXT)}...` : line;
+}
+
+// Export singleton instance
+export const outputWatches = OutputWatchManager.getInstance();
@@ -0,0 +1,509 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SessionState } from './session-state';
+import { logger } from './logger';
+
+/**
+ * Where workspace files live inside a container or on a remote machine
+ */
+export interface PathMapping {
+    localRoot: string;
+    remoteRoot: string;
+}
+
+/**
+ * Mappings read from the workspace's container setup, and the file they came from
+ */
+export interface InferredPathMappings {
+    pathMappings: PathMapping[];
+    source: string;
+}
+
+/**
+ * Signs that the path mappings of an attached session are wrong
+ */
+export interface PathMappingCheck {
+    warning: string;
+    unverifiedBreakpoints: { file: string; line: number }[];
+    missingSources: string[];
+    suggestedPathMappings: PathMapping[];
+}
+
+/**
+ * The parts of a docker-compose service that tell where the code ends up
+ */
+interface ComposeService {
+    name: string;
+    volumes: (string | Record<string, string>)[];
+    ports: (string | Record<string, string>)[];
+    build?: { context?: string; dockerfile?: string };
+}
+
+const COMPOSE_FILES = ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'];
+const DEVCONTAINER_FILES = ['.devcontainer/devcontainer.json', '.devcontainer.json'];
+
+const MAX_CHECKED_SOURCES = 20;
+const MAX_SUGGESTIONS = 3;
+const VERIFY_RETRY_MS = 1000;
+
+// Source files each debug type handles; breakpoints in other files are never sent to its adapter
+const ADAPTER_EXTENSIONS: Record<string, string[]> = {
+    debugpy: ['.py'],
+    python: ['.py'],
+    node: ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx'],
+    'pwa-node': ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx']
+};
+
+// Library and runtime sources say nothing about where the project's code is
+const LIBRARY_PATH = /[\\/](site-packages|dist-packages|node_modules|lib[\\/]python[\d.]+)[\\/]|^</;
+
+/**
+ * Infer path mappings from docker-compose.yml, devcontainer.json or a Dockerfile in the workspace.
+ * A compose service publishing the port is always used. Otherwise mappings are only inferred when
+ * no local process listens on the port - a program running on the host needs none.
+ */
+export function inferPathMappings(workspaceRoot: string, port: number | undefined, localProcessListens: boolean): InferredPathMappings | null {
+    try {
+        const published = port !== undefined ? inferFromCompose(workspaceRoot, port, true) : null;
+        if (published || localProcessListens) {
+            return published;
+        }
+        return inferFromCompose(workspaceRoot, port, false)
+            ?? inferFromDevcontainer(workspaceRoot)
+            ?? inferFromDockerfile(workspaceRoot);
+    } catch (error) {
+        logger.debug(`Could not infer path mappings: ${error}`);
+        return null;
+    }
+}
+
+/**
+ * Mappings of the compose service publishing the port, or (unless publishedOnly) of the only service that has any
+ */
+function inferFromCompose(workspaceRoot: string, port: number | undefined, publishedOnly: boolean): InferredPathMappings | null {
+    const composeFile = COMPOSE_FILES.map(file => path.join(workspaceRoot, file)).find(file => fs.existsSync(file));
+    if (!composeFile) {
+        return null;
+    }
+
+    const composeDir = path.dirname(composeFile);
+    const services = parseComposeServices(fs.readFileSync(composeFile, 'utf-8'))
+        .map(service => ({ service, pathMappings: getServiceMappings(service, composeDir, workspaceRoot) }))
+        .filter(candidate => candidate.pathMappings.length > 0);
+
+    const published = port !== undefined
+        ? services.find(candidate => getPublishedPorts(candidate.service).includes(port))
+        : undefined;
+    const chosen = published ?? (!publishedOnly && services.length === 1 ? services[0] : undefined);
+    if (!chosen) {
+        return null;
+    }
+
+    return {
+        pathMappings: chosen.pathMappings,
+        source: `${path.basename(composeFile)} (service "${chosen.service.name}")`
+    };
+}
+
+/**
+ * Where devcontainer.json puts the workspace
+ */
+function inferFromDevcontainer(workspaceRoot: string): InferredPathMappings | null {
+    const configFile = DEVCONTAINER_FILES.map(file => path.join(workspaceRoot, file)).find(file => fs.existsSync(file));
+    if (!configFile) {
+        return null;
+    }
+
+    const config = parseJsonc(fs.readFileSync(configFile, 'utf-8'));
+    const source = path.relative(workspaceRoot, configFile);
+    const basename = path.basename(workspaceRoot);
+    const substitute = (value: string) => value
+        .replace(/\$\{localWorkspaceFolderBasename\}/g, basename)
+        .replace(/\$\{localWorkspaceFolder\}/g, workspaceRoot);
+
+    // Compose-based dev containers: use the service's mounts
+    if (config.dockerComposeFile && config.service) {
+        const composeFiles: string[] = Array.isArray(config.dockerComposeFile) ? config.dockerComposeFile : [config.dockerComposeFile];
+        for (const composeFile of composeFiles.map(file => path.resolve(path.dirname(configFile), file))) {
+            if (!fs.existsSync(composeFile)) {
+                continue;
+            }
+            const service = parseComposeServices(fs.readFileSync(composeFile, 'utf-8')).find(s => s.name === config.service);
+            const pathMappings = service ? getServiceMappings(service, path.dirname(composeFile), workspaceRoot) : [];
+            if (pathMappings.length > 0) {
+                return { pathMappings, source: `${source} (service "${config.service}")` };
+            }
+        }
+    }
+
+    const mountTarget = typeof config.workspaceMount === 'string'
+        ? config.workspaceMount.match(/(?:^|,)\s*(?:target|dst|destination)=([^,]+)/)?.[1]
+        : undefined;
+    const remoteRoot = substitute(config.workspaceFolder ?? mountTarget ?? `/workspaces/${basename}`);
+    return { pathMappings: [{ localRoot: workspaceRoot, remoteRoot }], source };
+}
+
+/**
+ * Where the Dockerfile in the workspace root copies the code
+ */
+function inferFromDockerfile(workspaceRoot: string): InferredPathMappings | null {
+    const dockerfile = path.join(workspaceRoot, 'Dockerfile');
+    if (!fs.existsSync(dockerfile)) {
+        return null;
+    }
+    const pathMappings = filterMappings(readDockerfileMappings(dockerfile, workspaceRoot), workspaceRoot);
+    return pathMappings.length > 0 ? { pathMappings, source: 'Dockerfile' } : null;
+}
+
+/**
+ * A compose service's bind mounts, or else where its Dockerfile copies the code
+ */
+function getServiceMappings(service: ComposeService, composeDir: string, workspaceRoot: string): PathMapping[] {
+    const mounts = filterMappings(service.volumes.flatMap(volume => {
+        const mount = typeof volume === 'string' ? parseShortVolume(volume) : volume;
+        if (!mount?.source || !mount.target || (mount.type && mount.type !== 'bind') || !/^(\.|\/|~|[A-Za-z]:)/.test(mount.source)) {
+            return [];
+        }
+        return [{ localRoot: path.resolve(composeDir, mount.source), remoteRoot: mount.target }];
+    }), workspaceRoot);
+    if (mounts.length > 0 || !service.build) {
+        return mounts;
+    }
+
+    const context = path.resolve(composeDir, service.build.context ?? '.');
+    const dockerfile = path.resolve(context, service.build.dockerfile ?? 'Dockerfile');
+    return fs.existsSync(dockerfile)
+        ? filterMappings(readDockerfileMappings(dockerfile, context), workspaceRoot)
+        : [];
+}
+
+/**
+ * Directories the final stage of a Dockerfile copies from the build context, and where to
+ */
+function readDockerfileMappings(dockerfile: string, contextDir: string): PathMapping[] {
+    // Join continuation lines
+    const lines = fs.readFileSync(dockerfile, 'utf-8').replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+    let mappings: PathMapping[] = [];
+    let workdir = '/';
+
+    for (const line of lines.map(l => l.trim())) {
+        const [instruction, ...rest] = line.split(/\s+/);
+        switch (instruction.toUpperCase()) {
+            case 'FROM':
+                // Only the last stage ends up in the running image
+                mappings = [];
+                workdir = '/';
+                break;
+            case 'WORKDIR':
+                workdir = path.posix.resolve(workdir, rest.join(' '));
+                break;
+            case 'COPY':
+            case 'ADD': {
+                if (rest.some(arg => arg.startsWith('--from'))) {
+                    break;
+                }
+                const args = rest.join(' ').startsWith('[')
+                    ? JSON.parse(rest.join(' ')) as string[]
+                    : rest.filter(arg => !arg.startsWith('--'));
+                const destination = path.posix.resolve(workdir, args[args.length - 1]);
+                for (const source of args.slice(0, -1)) {
+                    const localRoot = path.resolve(contextDir, source);
+                    if (!/[*?]/.test(source) && fs.existsSync(localRoot) && fs.statSync(localRoot).isDirectory()) {
+                        mappings.push({ localRoot, remoteRoot: destination });
+                    }
+                }
+                break;
+            }
+        }
+    }
+    return mappings;
+}
+
+/**
+ * Keep mappings that involve the workspace, most specific first
+ */
+function filterMappings(mappings: PathMapping[], workspaceRoot: string): PathMapping[] {
+    const seen = new Set<string>();
+    return mappings
+        .filter(({ localRoot, remoteRoot }) =>
+            localRoot !== remoteRoot &&
+            (isWithin(localRoot, workspaceRoot) || isWithin(workspaceRoot, localRoot)))
+        .filter(({ localRoot, remoteRoot }) => {
+            const key = `${localRoot}\n${remoteRoot}`;
+            return !seen.has(key) && !!seen.add(key);
+        })
+        .sort((a, b) => b.localRoot.length - a.localRoot.length);
+}
+
+function isWithin(child: string, parent: string): boolean {
+    const relative = path.relative(parent, child);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Read the services of a compose file: just the keys path mapping needs, from the
+ * block layout compose files are written in (no flow-style YAML)
+ */
+function parseComposeServices(text: string): ComposeService[] {
+    const services: ComposeService[] = [];
+    let inServices = false;
+    let serviceIndent = -1;
+    let service: ComposeService | undefined;
+    let section: string | undefined;
+    let sectionIndent = -1;
+    let item: Record<string, string> | undefined;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/(^|\s)#.*$/, '');
+        if (!line.trim()) {
+            continue;
+        }
+        const indent = line.length - line.trimStart().length;
+        const content = line.trim();
+
+        if (indent === 0) {
+            inServices = content === 'services:';
+            serviceIndent = -1;
+            service = undefined;
+            continue;
+        }
+        if (!inServices) {
+            continue;
+        }
+
+        if (serviceIndent === -1 || indent <= serviceIndent) {
+            serviceIndent = indent;
+            service = { name: unquote(content.replace(/:$/, '')), volumes: [], ports: [] };
+            services.push(service);
+            section = undefined;
+            continue;
+        }
+        if (!service) {
+            continue;
+        }
+
+        const [key, value] = splitKeyValue(content);
+        if (section === undefined || indent <= sectionIndent) {
+            section = key;
+            sectionIndent = indent;
+            item = undefined;
+            if (key === 'build') {
+                service.build = value ? { context: value } : {};
+            }
+            continue;
+        }
+
+        if (section === 'volumes' || section === 'ports') {
+            const list = section === 'volumes' ? service.volumes : service.ports;
+            if (content.startsWith('-')) {
+                const entry = content.slice(1).trim();
+                const [entryKey, entryValue] = splitKeyValue(entry);
+                if (entryValue !== undefined) {
+                    // Long syntax: "- type: bind", followed by more keys
+                    item = { [entryKey]: entryValue };
+                    list.push(item);
+                } else {
+                    item = undefined;
+                    list.push(unquote(entry));
+                }
+            } else if (item && value !== undefined) {
+                item[key] = value;
+            }
+        } else if (section === 'build' && service.build && (key === 'context' || key === 'dockerfile') && value !== undefined) {
+            service.build[key] = value;
+        }
+    }
+    return services;
+}
+
+/**
+ * "key: value" (or "key:") of a YAML line; no key for plain values such as "./src:/app"
+ */
+function splitKeyValue(content: string): [string, string | undefined] {
+    const match = content.match(/^([\w.-]+):(?:\s+(.*))?$/);
+    return match ? [match[1], match[2] !== undefined ? unquote(match[2]) : ''] : [content, undefined];
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * "./src:/app/src:ro" -> source and target (named volumes have no path as source)
+ */
+function parseShortVolume(volume: string): Record<string, string> | undefined {
+    const match = volume.match(/^((?:[A-Za-z]:)?[^:]+):([^:]+)(?::[^:]*)?$/);
+    return match ? { source: match[1], target: match[2] } : undefined;
+}
+
+/**
+ * Host ports a compose service publishes
+ */
+function getPublishedPorts(service: ComposeService): number[] {
+    return service.ports.flatMap(entry => {
+        if (typeof entry !== 'string') {
+            return entry.published ? [Number(entry.published)] : [];
+        }
+        // "5678", "5678:5678", "127.0.0.1:5678:5678/tcp"
+        const parts = entry.replace(/\/(tcp|udp)$/, '').split(':');
+        return [Number(parts.length > 1 ? parts[parts.length - 2] : parts[0])];
+    }).filter(Number.isInteger);
+}
+
+/**
+ * JSON with comments and trailing commas (devcontainer.json)
+ */
+function parseJsonc(text: string): any {
+    return JSON.parse(text
+        .replace(/\/\*[\s\S]*?\*\/|^\s*\/\/.*$/gm, '')
+        .replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * After attaching: check that breakpoints were verified and that the sources the program loaded exist
+ * in the workspace. The adapter reports source paths after applying the mappings, so a path missing
+ * locally means the mappings don't fit.
+ */
+export async function checkPathMappings(state: SessionState, mappings: PathMapping[]): Promise<PathMappingCheck | null> {
+    const reportedSources = await getReportedSourcePaths(state);
+    const extensions = new Set([
+        ...(ADAPTER_EXTENSIONS[state.session.type] ?? []),
+        ...reportedSources.map(source => path.extname(source).toLowerCase()).filter(ext => ext !== '')
+    ]);
+
+    let unverifiedBreakpoints = await findUnverifiedBreakpoints(state, extensions);
+    if (unverifiedBreakpoints.length > 0) {
+        // Adapters verify breakpoints in the background - give them a moment
+        await new Promise(resolve => setTimeout(resolve, VERIFY_RETRY_MS));
+        unverifiedBreakpoints = await findUnverifiedBreakpoints(state, extensions);
+    }
+
+    const sources = reportedSources
+        .filter(source => !LIBRARY_PATH.test(source))
+        .slice(0, MAX_CHECKED_SOURCES);
+    const missingSources = sources.filter(source => !fs.existsSync(source));
+    const sourcesMissing = sources.length > 0 && missingSources.length === sources.length;
+    if (unverifiedBreakpoints.length === 0 && !sourcesMissing) {
+        return null;
+    }
+
+    const remotePaths = missingSources.map(source => toRemotePath(source, mappings));
+    const suggestedPathMappings = await suggestPathMappings(remotePaths);
+    return {
+        warning: unverifiedBreakpoints.length > 0
+            ? `${unverifiedBreakpoints.length} breakpoint(s) are still unverified - the path mappings may not match where the code runs.`
+            : 'The program\'s source files were not found in the workspace - the path mappings may not match where the code runs.',
+        unverifiedBreakpoints,
+        missingSources: missingSources.slice(0, 5),
+        suggestedPathMappings
+    };
+}
+
+/**
+ * Enabled source breakpoints the session's adapter could not verify. Only files with the given
+ * extensions are checked - the languages the adapter handles; other breakpoints stay unverified anyway.
+ */
+async function findUnverifiedBreakpoints(state: SessionState, extensions: Set<string>): Promise<{ file: string; line: number }[]> {
+    const unverified: { file: string; line: number }[] = [];
+    for (const bp of vscode.debug.breakpoints) {
+        if (!(bp instanceof vscode.SourceBreakpoint) || !bp.enabled ||
+            !extensions.has(path.extname(bp.location.uri.fsPath).toLowerCase())) {
+            continue;
+        }
+        const resolved: any = await state.session.getDebugProtocolBreakpoint(bp).then(r => r, () => undefined);
+        if (resolved && resolved.verified === false) {
+            unverified.push({ file: bp.location.uri.fsPath, line: bp.location.range.start.line + 1 });
+        }
+    }
+    return unverified;
+}
+
+/**
+ * Source paths the adapter reported through loadedSources and the stack
+ */
+async function getReportedSourcePaths(state: SessionState): Promise<string[]> {
+    const paths = new Set<string>();
+    try {
+        const response = await state.session.customRequest('loadedSources');
+        for (const source of response?.sources ?? []) {
+            if (source.path) {
+                paths.add(source.path);
+            }
+        }
+    } catch (error) {
+        logger.debug(`loadedSources not available: ${error}`);
+    }
+    for (const frame of state.stackFrames) {
+        if (frame.source?.path) {
+            paths.add(frame.source.path);
+        }
+    }
+    return Array.from(paths).filter(source => path.isAbsolute(source));
+}
+
+/**
+ * Undo a mapping the adapter applied, to get the path inside the container
+ */
+function toRemotePath(source: string, mappings: PathMapping[]): string {
+    const mapping = mappings.find(m => isWithin(source, m.localRoot));
+    return mapping
+        ? path.posix.join(mapping.remoteRoot, path.relative(mapping.localRoot, source).split(path.sep).join('/'))
+        : source;
+}
+
+/**
+ * Mappings that would turn remote paths into workspace files with the same trailing path
+ */
+async function suggestPathMappings(remotePaths: string[]): Promise<PathMapping[]> {
+    const votes = new Map<string, { mapping: PathMapping; count: number }>();
+
+    for (const remotePath of remotePaths) {
+        const remoteParts = remotePath.split(/[\\/]/);
+        const basename = remoteParts[remoteParts.length - 1];
+        const candidates = await vscode.workspace.findFiles(`**/${basename}`, '**/node_modules/**', 5);
+
+        for (const candidate of candidates) {
+            const localParts = candidate.fsPath.split(/[\\/]/);
+            let common = 0;
+            while (common < Math.min(localParts.length, remoteParts.length) - 1 &&
+                localParts[localParts.length - 1 - common] === remoteParts[remoteParts.length - 1 - common]) {
+                common++;
+            }
+            if (common === 0) {
+                continue;
+            }
+            const mapping = {
+                localRoot: localParts.slice(0, localParts.length - common).join(path.sep),
+                remoteRoot: remoteParts.slice(0, remoteParts.length - common).join('/') || '/'
+            };
+            const key = `${mapping.localRoot}\n${mapping.remoteRoot}`;
+            const vote = votes.get(key) ?? { mapping, count: 0 };
+            vote.count++;
+            votes.set(key, vote);
+        }
+    }
+
+    return Array.from(votes.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(vote => vote.mapping);
+}
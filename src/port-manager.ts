@@ -17,6 +17,7 @@
  */
 
 import * as net from 'net';
+import { logger } from './logger';
 
 /**
  * Port Manager - handles port detection and allocation
@@ -56,10 +57,10 @@ export class PortManager {
         for (let i = 0; i < maxAttempts; i++) {
             const inUse = await this.isPortInUse(port);
             if (!inUse) {
-                console.log(`[Port Manager] Found available port: ${port}`);
+                logger.info(`[Port Manager] Found available port: ${port}`);
                 return port;
             }
-            console.log(`[Port Manager] Port ${port} is in use, trying next...`);
+            logger.info(`[Port Manager] Port ${port} is in use, trying next...`);
             port++;
         }
 
@@ -76,7 +77,7 @@ export class PortManager {
             const port = startPort + i;
             const inUse = await this.isPortInUse(port);
             suggestions.push(port);
-            console.log(`[Port Manager] Port ${port}: ${inUse ? 'IN USE' : 'AVAILABLE'}`);
+            logger.info(`[Port Manager] Port ${port}: ${inUse ? 'IN USE' : 'AVAILABLE'}`);
         }
 
         return suggestions;
@@ -19,6 +19,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { logger } from './logger';
 
 /**
  * Port Registry - tracks which ports are in use by which projects
@@ -44,7 +45,7 @@ export class PortRegistry {
     private static ensureRegistry(): void {
         if (!fs.existsSync(this.registryPath)) {
             fs.writeFileSync(this.registryPath, JSON.stringify({}, null, 2), 'utf-8');
-            console.log(`[Port Registry] Created new registry at ${this.registryPath}`);
+            logger.info(`[Port Registry] Created new registry at ${this.registryPath}`);
         }
     }
 
@@ -57,7 +58,7 @@ export class PortRegistry {
             const content = fs.readFileSync(this.registryPath, 'utf-8');
             return JSON.parse(content);
         } catch (error) {
-            console.error('[Port Registry] Error reading registry:', error);
+            logger.error('[Port Registry] Error reading registry:', error);
             return {};
         }
     }
@@ -69,7 +70,7 @@ export class PortRegistry {
         try {
             fs.writeFileSync(this.registryPath, JSON.stringify(registry, null, 2), 'utf-8');
         } catch (error) {
-            console.error('[Port Registry] Error writing registry:', error);
+            logger.error('[Port Registry] Error writing registry:', error);
         }
     }
 
@@ -110,6 +111,19 @@ export class PortRegistry {
         return null;
     }
 
+    /**
+     * Get the ports registered for a project, most recently registered first
+     */
+    static getPortsForProject(projectPath: string): number[] {
+        const registry = this.readRegistry();
+        const normalized = path.resolve(projectPath);
+
+        return Object.values(registry)
+            .filter((entry: any) => entry.projectPath && path.resolve(entry.projectPath) === normalized)
+            .sort((a: any, b: any) => (b.timestamp || 0) - (a.timestamp || 0))
+            .map((entry: any) => entry.port);
+    }
+
     /**
      * Register a port for a project
      */
@@ -125,7 +139,7 @@ export class PortRegistry {
         };
         
         this.writeRegistry(registry);
-        console.log(`[Port Registry] Registered port ${port} for project: ${projectName}`);
+        logger.info(`[Port Registry] Registered port ${port} for project: ${projectName}`);
     }
 
     /**
@@ -137,7 +151,7 @@ export class PortRegistry {
         if (registry[port.toString()]) {
             delete registry[port.toString()];
             this.writeRegistry(registry);
-            console.log(`[Port Registry] Unregistered port ${port}`);
+            logger.info(`[Port Registry] Unregistered port ${port}`);
         }
     }
 
@@ -171,7 +185,7 @@ export class PortRegistry {
         for (const [portStr, entry] of Object.entries(registry)) {
             const age = now - entry.timestamp;
             if (age > oneHourMs) {
-                console.log(`[Port Registry] Removing stale entry for port ${portStr}`);
+                logger.info(`[Port Registry] Removing stale entry for port ${portStr}`);
                 delete registry[portStr];
                 updated = true;
             }
@@ -196,12 +210,12 @@ export class PortRegistry {
             const registryInUse = this.isPortRegistered(port);
 
             if (!systemInUse && !registryInUse) {
-                console.log(`[Port Registry] Found available port: ${port}`);
+                logger.info(`[Port Registry] Found available port: ${port}`);
                 return port;
             }
 
             if (systemInUse || registryInUse) {
-                console.log(`[Port Registry] Port ${port}: system=${systemInUse}, registry=${registryInUse}`);
+                logger.info(`[Port Registry] Port ${port}: system=${systemInUse}, registry=${registryInUse}`);
             }
 
             port++;
@@ -256,7 +270,7 @@ export class PortRegistry {
         }
 
         // Log for debugging
-        console.log(`[Port Registry] Suggested ports: ${suggestions.map(s => `${s.port}(${s.available ? 'avail' : 'used'})`).join(', ')}`);
+        logger.info(`[Port Registry] Suggested ports: ${suggestions.map(s => `${s.port}(${s.available ? 'avail' : 'used'})`).join(', ')}`);
 
         return suggestions;
     }
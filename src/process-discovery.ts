@@ -0,0 +1,218 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { PortManager } from './port-manager';
+
+export type ProcessRuntime = 'node' | 'python';
+
+/**
+ * A local node or python process the debugger could attach to
+ */
+export interface DebuggableProcess {
+    pid: number;
+    ppid: number;
+    runtime: ProcessRuntime;
+    command: string;
+    // Debug port from the command line (--inspect, debugpy --listen)
+    debugHost?: string;
+    debugPort?: number;
+    // Whether something answers on the debug port
+    debugPortOpen?: boolean;
+    // Node inspector targets reported by /json/list
+    inspectorTargets?: { title: string; url: string }[];
+    // Linux only: the process runs in a container (its debug port reaches us through the container)
+    inContainer?: boolean;
+}
+
+const DEFAULT_INSPECTOR_PORT = 9229;
+const PROBE_TIMEOUT_MS = 1000;
+const LIST_TIMEOUT_MS = 5000;
+const MAX_COMMAND_LENGTH = 300;
+
+// cgroup paths of processes started by container runtimes
+const CONTAINER_CGROUP = /docker|containerd|kubepods|libpod|lxc/;
+
+/**
+ * List local node and python processes, with the debug port each one listens on
+ */
+export async function listDebuggableProcesses(): Promise<DebuggableProcess[]> {
+    const processes: DebuggableProcess[] = [];
+    for (const { pid, ppid, command } of await listProcesses()) {
+        const runtime = detectRuntime(command);
+        if (!runtime || pid === process.pid) {
+            continue;
+        }
+        processes.push({
+            pid,
+            ppid,
+            runtime,
+            command: command.length > MAX_COMMAND_LENGTH ? `${command.slice(0, MAX_COMMAND_LENGTH)}...` : command,
+            ...findDebugAddress(runtime, command),
+            ...(process.platform === 'linux' ? { inContainer: isInContainer(pid) } : {})
+        });
+    }
+
+    await Promise.all(processes.map(probeDebugPort));
+    return processes;
+}
+
+/**
+ * Every process with its command line, from ps (or CIM on Windows)
+ */
+async function listProcesses(): Promise<{ pid: number; ppid: number; command: string }[]> {
+    if (process.platform === 'win32') {
+        const script = 'Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,CommandLine | ConvertTo-Json -Compress';
+        const output = await run('powershell.exe', ['-NoProfile', '-Command', script]);
+        const entries = JSON.parse(output || '[]');
+        return (Array.isArray(entries) ? entries : [entries])
+            .filter((entry: any) => entry.CommandLine)
+            .map((entry: any) => ({ pid: entry.ProcessId, ppid: entry.ParentProcessId, command: entry.CommandLine }));
+    }
+
+    const output = await run('ps', ['-A', '-o', 'pid=,ppid=,args=']);
+    return output.split('\n').flatMap(line => {
+        const match = line.match(/^\s*(\d+)\s+(\d+)\s+(.+)$/);
+        return match ? [{ pid: Number(match[1]), ppid: Number(match[2]), command: match[3].trim() }] : [];
+    });
+}
+
+function run(file: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(file, args, { timeout: LIST_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024, windowsHide: true }, (error, stdout) => {
+            if (error) {
+                reject(new Error(`Could not list processes: ${error.message}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Whether a process runs in another mount namespace than ours, or else in a container runtime's cgroup
+ * (the namespace of another user's process can't be read)
+ */
+function isInContainer(pid: number): boolean {
+    try {
+        return fs.readlinkSync(`/proc/${pid}/ns/mnt`) !== fs.readlinkSync('/proc/self/ns/mnt');
+    } catch {
+        try {
+            return CONTAINER_CGROUP.test(fs.readFileSync(`/proc/${pid}/cgroup`, 'utf-8'));
+        } catch {
+            return false;
+        }
+    }
+}
+
+/**
+ * node or python, from the executable name
+ */
+function detectRuntime(command: string): ProcessRuntime | null {
+    const executable = path.basename(command.split(/\s+/)[0].replace(/^"|"$/g, '')).toLowerCase();
+    if (/^(node|nodejs)(\.exe)?$/.test(executable)) {
+        return 'node';
+    }
+    if (/^python[\d.]*w?(\.exe)?$/.test(executable)) {
+        return 'python';
+    }
+    return null;
+}
+
+/**
+ * The debug address a process was started with: node --inspect[=[host:]port], python -m debugpy --listen [host:]port
+ */
+function findDebugAddress(runtime: ProcessRuntime, command: string): { debugHost?: string; debugPort?: number } {
+    const args = command.split(/\s+/);
+    let address: string | undefined;
+
+    if (runtime === 'node') {
+        const inspect = args.find(arg => /^--inspect(-brk|-wait)?(=|$)/.test(arg));
+        if (!inspect) {
+            return {};
+        }
+        address = inspect.split('=')[1] ?? String(DEFAULT_INSPECTOR_PORT);
+    } else {
+        const listenIndex = args.indexOf('--listen');
+        if (!args.some(arg => arg.includes('debugpy')) || listenIndex === -1 || !args[listenIndex + 1]) {
+            return {};
+        }
+        address = args[listenIndex + 1];
+    }
+
+    // The port follows the last colon, so IPv6 hosts ("[::1]:9229") keep theirs
+    const separator = address.lastIndexOf(':');
+    const host = separator === -1 ? 'localhost' : address.slice(0, separator).replace(/^\[(.*)\]$/, '$1');
+    const port = address.slice(separator + 1);
+    const debugPort = Number(port);
+    if (!/^\d+$/.test(port) || debugPort < 1 || debugPort > 65535) {
+        return {};
+    }
+    // Listening on every interface - connect through localhost
+    return { debugHost: host === '0.0.0.0' || host === '::' || host === '' ? 'localhost' : host, debugPort };
+}
+
+/**
+ * Check whether the debug port is open: node's inspector answers /json/list,
+ * a debugpy port is checked without connecting (debugpy only serves one client)
+ */
+async function probeDebugPort(proc: DebuggableProcess): Promise<void> {
+    if (!proc.debugPort) {
+        return;
+    }
+
+    if (proc.runtime === 'node') {
+        const targets = await fetchInspectorTargets(proc.debugHost ?? 'localhost', proc.debugPort);
+        proc.debugPortOpen = targets !== null;
+        if (targets) {
+            proc.inspectorTargets = targets.map((target: any) => ({ title: target.title, url: target.url }));
+        }
+        return;
+    }
+
+    // Only a local port can be checked by binding to it
+    if (proc.debugHost !== 'localhost' && proc.debugHost !== '127.0.0.1') {
+        return;
+    }
+    proc.debugPortOpen = await PortManager.isPortInUse(proc.debugPort);
+}
+
+/**
+ * Targets of a node inspector, or null when nothing answers on the port
+ */
+function fetchInspectorTargets(host: string, port: number): Promise<any[] | null> {
+    return new Promise((resolve) => {
+        const req = http.get({ host, port, path: '/json/list', timeout: PROBE_TIMEOUT_MS }, (res) => {
+            let body = '';
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => {
+                try {
+                    const targets = JSON.parse(body);
+                    resolve(Array.isArray(targets) ? targets : null);
+                } catch {
+                    resolve(null);
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy());
+        req.on('error', () => resolve(null));
+    });
+}
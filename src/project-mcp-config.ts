@@ -18,6 +18,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { logger } from './logger';
 
 /**
  * Project-level MCP Config Manager
@@ -68,7 +70,7 @@ export class ProjectMCPConfigManager {
     private ensureConfigDir(): void {
         const configDir = path.dirname(this.configPath);
         if (!fs.existsSync(configDir)) {
-            console.log(`[Project MCP Config] Creating directory: ${configDir}`);
+            logger.info(`[Project MCP Config] Creating directory: ${configDir}`);
             fs.mkdirSync(configDir, { recursive: true });
         }
     }
@@ -79,16 +81,16 @@ export class ProjectMCPConfigManager {
     private readConfig(): any {
         try {
             if (!fs.existsSync(this.configPath)) {
-                console.log(`[Project MCP Config] Config file does not exist: ${this.configPath}`);
+                logger.info(`[Project MCP Config] Config file does not exist: ${this.configPath}`);
                 return {};
             }
 
             const content = fs.readFileSync(this.configPath, 'utf-8');
             const config = JSON.parse(content);
-            console.log(`[Project MCP Config] Loaded config from: ${this.configPath}`);
+            logger.info(`[Project MCP Config] Loaded config from: ${this.configPath}`);
             return config;
         } catch (error) {
-            console.error(`[Project MCP Config] Error reading config: ${error}`);
+            logger.error(`[Project MCP Config] Error reading config: ${error}`);
             return {};
         }
     }
@@ -103,10 +105,10 @@ export class ProjectMCPConfigManager {
 
             // Write with formatting
             fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2), 'utf-8');
-            console.log(`[Project MCP Config] Config written to: ${this.configPath}`);
+            logger.info(`[Project MCP Config] Config written to: ${this.configPath}`);
             return true;
         } catch (error) {
-            console.error(`[Project MCP Config] Error writing config: ${error}`);
+            logger.error(`[Project MCP Config] Error writing config: ${error}`);
             return false;
         }
     }
@@ -115,7 +117,7 @@ export class ProjectMCPConfigManager {
      * Configure project-level MCP server
      */
     async configureProject(port: number = 3100): Promise<{ success: boolean; message: string; configPath: string; serverName: string; port: number }> {
-        console.log(`[Project MCP Config] Configuring ${this.ideType} MCP server for project: ${this.projectName} on port ${port}`);
+        logger.info(`[Project MCP Config] Configuring ${this.ideType} MCP server for project: ${this.projectName} on port ${port}`);
 
         try {
             // Read existing config
@@ -128,27 +130,25 @@ export class ProjectMCPConfigManager {
             // Initialize servers object if not exists
             if (!config[serverKey]) {
                 config[serverKey] = {};
-                console.log(`[Project MCP Config] Created ${serverKey} object`);
+                logger.info(`[Project MCP Config] Created ${serverKey} object`);
             }
 
             const serverName = this.getServerName();
 
-            // Define AI Debug server config for HTTP transport
-            const aiDebugServerConfig = {
-                type: 'http',
-                url: `http://localhost:${port}/mcp`,
-                env: {
-                    MCP_PORT: port.toString()
-                }
-            };
-
             // Check if already configured
             const existingConfig = config[serverKey][serverName];
+
+            // Keep the existing secret so connected clients don't need reconfiguring
+            const token = this.getTokenFromServerConfig(existingConfig) || this.generateToken();
+
+            // Define AI Debug server config for HTTP transport
+            const aiDebugServerConfig = this.buildServerConfig(port, token);
+
             if (existingConfig) {
-                console.log(`[Project MCP Config] Server "${serverName}" already configured`);
+                logger.info(`[Project MCP Config] Server "${serverName}" already configured`);
 
-                // Check if port is the same
-                if (existingConfig.env?.MCP_PORT == port) {
+                // Check if port is the same and the server is already protected by a token
+                if (existingConfig.env?.MCP_PORT == port && this.getTokenFromServerConfig(existingConfig)) {
                     return {
                         success: true,
                         message: `✅ AI Debug MCP server "${serverName}" already configured on port ${port} in ${this.ideType}.\n\nNo changes needed.`,
@@ -157,13 +157,13 @@ export class ProjectMCPConfigManager {
                         port: port
                     };
                 } else {
-                    // Update port
-                    console.log(`[Project MCP Config] Updating port from ${existingConfig.env?.MCP_PORT} to ${port}`);
+                    // Update port (and add the auth token to configs created before tokens existed)
+                    logger.info(`[Project MCP Config] Updating server config (port ${existingConfig.env?.MCP_PORT} -> ${port})`);
                     config[serverKey][serverName] = aiDebugServerConfig;
                 }
             } else {
                 // Add new server
-                console.log(`[Project MCP Config] Adding AI Debug server configuration`);
+                logger.info(`[Project MCP Config] Adding AI Debug server configuration`);
                 config[serverKey][serverName] = aiDebugServerConfig;
             }
 
@@ -195,11 +195,11 @@ export class ProjectMCPConfigManager {
                 };
             }
         } catch (error: any) {
-            console.error('[Project MCP Config] Error during configuration:', error);
+            logger.error('[Project MCP Config] Error during configuration:', error);
             return {
                 success: false,
                 message: `❌ Error configuring project MCP: ${error.message}\n\n` +
-                        `Please check the Extension Host output for details.`,
+                        `Run "Killer Bug: Show Output" for details.`,
                 configPath: this.configPath,
                 serverName: this.getServerName(),
                 port: port
@@ -210,7 +210,7 @@ export class ProjectMCPConfigManager {
     /**
      * Get current configuration status
      */
-    getStatus(): { configured: boolean; port?: number; serverName?: string; configPath: string } {
+    getStatus(): { configured: boolean; port?: number; token?: string; serverName?: string; configPath: string } {
         try {
             const config = this.readConfig();
 
@@ -224,6 +224,7 @@ export class ProjectMCPConfigManager {
                 return {
                     configured: true,
                     port: parseInt(port),
+                    token: this.getTokenFromServerConfig(serverConfig),
                     serverName: serverName,
                     configPath: this.configPath
                 };
@@ -234,7 +235,7 @@ export class ProjectMCPConfigManager {
                 configPath: this.configPath
             };
         } catch (error) {
-            console.error('[Project MCP Config] Error getting status:', error);
+            logger.error('[Project MCP Config] Error getting status:', error);
             return {
                 configured: false,
                 configPath: this.configPath
@@ -242,6 +243,65 @@ export class ProjectMCPConfigManager {
         }
     }
 
+    /**
+     * Get the auth token for the configured server, adding one to configs written
+     * before tokens existed. Returns undefined if the project is not configured.
+     */
+    ensureAuthToken(): string | undefined {
+        const config = this.readConfig();
+        const serverKey = this.ideType === 'cursor' ? 'mcpServers' : 'servers';
+        const serverName = this.getServerName();
+        const serverConfig = config[serverKey]?.[serverName];
+
+        if (!serverConfig) {
+            return undefined;
+        }
+
+        const existingToken = this.getTokenFromServerConfig(serverConfig);
+        if (existingToken) {
+            return existingToken;
+        }
+
+        logger.info(`[Project MCP Config] Adding auth token to existing server "${serverName}"`);
+        const token = this.generateToken();
+        const port = parseInt(serverConfig.env?.MCP_PORT || '3100');
+        config[serverKey][serverName] = this.buildServerConfig(port, token);
+
+        return this.writeConfig(config) ? token : undefined;
+    }
+
+    /**
+     * Build the mcp.json entry for the HTTP transport
+     */
+    private buildServerConfig(port: number, token: string): any {
+        return {
+            type: 'http',
+            url: `http://127.0.0.1:${port}/mcp`,
+            headers: {
+                Authorization: `Bearer ${token}`
+            },
+            env: {
+                MCP_PORT: port.toString()
+            }
+        };
+    }
+
+    /**
+     * Generate a per-project secret for the MCP endpoint
+     */
+    private generateToken(): string {
+        return crypto.randomBytes(32).toString('hex');
+    }
+
+    /**
+     * Extract the bearer token from a server entry, if any
+     */
+    private getTokenFromServerConfig(serverConfig: any): string | undefined {
+        const header: string | undefined = serverConfig?.headers?.Authorization;
+        const match = header?.match(/^Bearer\s+(\S+)$/);
+        return match ? match[1] : undefined;
+    }
+
     /**
      * Get project name
      */
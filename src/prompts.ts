@@ -0,0 +1,160 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * MCP prompts - canned, parameterized debugging workflows built from the debug_* tools,
+ * so every client follows the same guided steps
+ */
+
+interface PromptArgument {
+    name: string;
+    description: string;
+    required?: boolean;
+}
+
+interface PromptDefinition {
+    name: string;
+    description: string;
+    arguments: PromptArgument[];
+    build: (args: Record<string, string>) => string;
+}
+
+// Shared closing steps so every workflow leaves the workspace clean
+const CLEANUP_STEPS =
+    'Cleanup: call debug_listBreakpoints, remove every breakpoint you set with debug_removeBreakpoint, ' +
+    'then end the session with debug_stop.';
+
+const PROMPTS: PromptDefinition[] = [
+    {
+        name: 'debug_failing_test',
+        description: 'Run a failing test under the debugger, stop where it goes wrong and explain the root cause.',
+        arguments: [
+            { name: 'testFile', description: 'Absolute path to the test file', required: true },
+            { name: 'testName', description: 'Name of the failing test (optional)' },
+            { name: 'symptom', description: 'Failure message or observed wrong behaviour (optional)' }
+        ],
+        build: (args) => [
+            `Debug the failing test${args.testName ? ` "${args.testName}"` : ''} in ${args.testFile}.`,
+            args.symptom ? `Observed failure: ${args.symptom}` : '',
+            '',
+            'Steps:',
+            '1. Call debug_listConfigs and look for a test configuration. If one exists, use debug_startWithConfig; otherwise use debug_startTest with the test file and test name.',
+            '2. Before starting, read the test and set breakpoints with debug_setBreakpoint on the failing assertion and on the code under test it calls.',
+            '3. When paused, call debug_getStackTrace, then debug_getVariables on the relevant frames. Use debug_evaluate only for side-effect-free expressions.',
+            '4. Step with debug_stepOver / debug_stepInto / debug_stepOut or move on with debug_continue until you find where actual values diverge from expected ones.',
+            '5. Explain the root cause and suggest a fix.',
+            `6. ${CLEANUP_STEPS}`
+        ].filter(line => line !== '').join('\n')
+    },
+    {
+        name: 'investigate_exception',
+        description: 'Stop at the line where an exception is raised and work out why it happens.',
+        arguments: [
+            { name: 'file', description: 'Absolute path to the file where the exception is raised', required: true },
+            { name: 'line', description: 'Line number (1-based) where the exception is raised', required: true },
+            { name: 'exception', description: 'Exception type or message (optional)' }
+        ],
+        build: (args) => [
+            `Investigate the exception${args.exception ? ` "${args.exception}"` : ''} raised at ${args.file}:${args.line}.`,
+            '',
+            'Steps:',
+            `1. Call debug_setBreakpoint at ${args.file} line ${args.line}.`,
+            '2. Check debug_getStatus. If no session is running, call debug_listConfigs and start one with debug_startWithConfig (preferred) or debug_start, then reproduce the failure.',
+            '3. When the breakpoint is hit, call debug_getStackTrace to see how execution got here.',
+            '4. Inspect the inputs with debug_getVariables on this frame and its callers. Use debug_evaluate for side-effect-free checks of the failing expression.',
+            '5. Explain which value is wrong, where it came from, and suggest a fix.',
+            `6. ${CLEANUP_STEPS}`
+        ].join('\n')
+    },
+    {
+        name: 'attach_to_server',
+        description: 'Attach to a running server (e.g. FastAPI with debugpy), break in a handler, trigger it and inspect the request.',
+        arguments: [
+            { name: 'port', description: 'Port the debugger is listening on (e.g. 5678)', required: true },
+            { name: 'type', description: 'Debugger type: debugpy, python, node, pwa-node (default: debugpy)' },
+            { name: 'handler', description: 'Handler to debug as file:line or a route description (optional)' }
+        ],
+        build: (args) => [
+            `Attach to the server whose debugger listens on port ${args.port} and debug ${args.handler ? args.handler : 'the request handler in question'}.`,
+            '',
+            'Steps:',
+            `1. Call debug_listConfigs. If an attach configuration for port ${args.port} exists, use debug_startWithConfig; otherwise call debug_attach with port ${args.port} and type "${args.type || 'debugpy'}".`,
+            '2. Set a breakpoint in the handler with debug_setBreakpoint.',
+            '3. Ask the user to trigger the request (or trigger it yourself if you can), then call debug_waitForStop until the session is paused.',
+            '4. Call debug_getStackTrace and debug_getVariables to inspect the request and the handler state. Step with debug_stepOver as needed.',
+            '5. Call debug_continue so the request can finish, then report your findings.',
+            `6. ${CLEANUP_STEPS} Stopping only detaches - the server keeps running.`
+        ].join('\n')
+    },
+    {
+        name: 'cleanup_breakpoints',
+        description: 'Remove every breakpoint the AI set and leave the debugger in a clean state.',
+        arguments: [],
+        build: () => [
+            'Clean up all breakpoints you set while debugging.',
+            '',
+            'Steps:',
+            '1. Call debug_listBreakpoints.',
+            '2. Call debug_removeBreakpoint for each breakpoint you created during this conversation. Ask the user before removing breakpoints you did not create.',
+            '3. Call debug_listBreakpoints again to confirm they are gone.',
+            '4. If a debug session you started is still active, call debug_stop.'
+        ].join('\n')
+    }
+];
+
+/**
+ * Get the list of available prompts
+ */
+export function listPrompts() {
+    return PROMPTS.map(p => ({
+        name: p.name,
+        description: p.description,
+        arguments: p.arguments
+    }));
+}
+
+/**
+ * Render a prompt with the given arguments
+ * Throws if the prompt is unknown or a required argument is missing
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+    const prompt = PROMPTS.find(p => p.name === name);
+    if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+        .filter(a => a.required && (args[a.name] === undefined || args[a.name] === ''))
+        .map(a => a.name);
+    if (missing.length > 0) {
+        throw new Error(`Missing required argument(s) for prompt ${name}: ${missing.join(', ')}`);
+    }
+
+    return {
+        description: prompt.description,
+        messages: [
+            {
+                role: 'user',
+                content: {
+                    type: 'text',
+                    text: prompt.build(args)
+                }
+            }
+        ]
+    };
+}
@@ -0,0 +1,227 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as vscode from 'vscode';
+import { debugState } from './debug-state';
+import { debugGetStatus } from './tools/session';
+import { debugListBreakpoints } from './tools/breakpoints';
+import { debugGetStackTrace, debugGetVariables } from './tools/inspection';
+import { logger } from './logger';
+
+/**
+ * MCP resources - live debug state clients can attach to their context without tool calls
+ */
+
+const SESSION_STATUS_URI = 'killerbug://session/current';
+const SESSION_STACK_URI = 'killerbug://session/current/stack';
+const SESSION_VARIABLES_URI = 'killerbug://session/current/variables';
+const SESSION_THREADS_URI = 'killerbug://session/current/threads';
+const BREAKPOINTS_URI = 'killerbug://breakpoints';
+const FRAME_VARIABLES_PATTERN = /^killerbug:\/\/frame\/(\d+)\/variables$/;
+
+// URIs each client session asked to be notified about
+const subscriptions: Map<string, Set<string>> = new Map();
+
+/**
+ * Get the list of concrete resources
+ */
+export function listResources() {
+    return [
+        {
+            uri: SESSION_STATUS_URI,
+            name: 'Debug session status',
+            description: 'Whether a debug session is active, paused or running, and the current file, line and function.',
+            mimeType: 'application/json'
+        },
+        {
+            uri: SESSION_STACK_URI,
+            name: 'Current call stack',
+            description: 'Stack frames of the paused thread with frameId values (empty while running).',
+            mimeType: 'application/json'
+        },
+        {
+            uri: SESSION_VARIABLES_URI,
+            name: 'Variables in the top frame',
+            description: 'Variables of every scope in the top stack frame of the paused thread.',
+            mimeType: 'application/json'
+        },
+        {
+            uri: SESSION_THREADS_URI,
+            name: 'Threads',
+            description: 'Threads of the current debug session.',
+            mimeType: 'application/json'
+        },
+        {
+            uri: BREAKPOINTS_URI,
+            name: 'Breakpoints',
+            description: 'All source breakpoints set in VS Code.',
+            mimeType: 'application/json'
+        }
+    ];
+}
+
+/**
+ * Get the list of parameterized resources
+ */
+export function listResourceTemplates() {
+    return [
+        {
+            uriTemplate: 'killerbug://frame/{frameId}/variables',
+            name: 'Variables in a stack frame',
+            description: 'Variables of every scope in the given frame. Get frameId values from killerbug://session/current/stack.',
+            mimeType: 'application/json'
+        }
+    ];
+}
+
+/**
+ * The tool a resource mirrors - reading the resource is subject to that tool's policy.
+ * Returns null if the URI is not known.
+ */
+export function getResourceTool(uri: string): string | null {
+    switch (uri) {
+        case SESSION_STATUS_URI:
+            return 'debug_getStatus';
+        case SESSION_STACK_URI:
+        case SESSION_THREADS_URI:
+            return 'debug_getStackTrace';
+        case SESSION_VARIABLES_URI:
+            return 'debug_getVariables';
+        case BREAKPOINTS_URI:
+            return 'debug_listBreakpoints';
+        default:
+            return FRAME_VARIABLES_PATTERN.test(uri) ? 'debug_getVariables' : null;
+    }
+}
+
+/**
+ * Read a resource's data, or return null if the URI is not known
+ */
+export async function readResource(uri: string): Promise<any | null> {
+    if (uri === SESSION_STATUS_URI) {
+        return debugGetStatus();
+    } else if (uri === SESSION_STACK_URI) {
+        return debugGetStackTrace();
+    } else if (uri === SESSION_VARIABLES_URI) {
+        return debugGetVariables();
+    } else if (uri === SESSION_THREADS_URI) {
+        return getThreads();
+    } else if (uri === BREAKPOINTS_URI) {
+        return debugListBreakpoints();
+    }
+
+    const frameMatch = uri.match(FRAME_VARIABLES_PATTERN);
+    return frameMatch ? debugGetVariables(parseInt(frameMatch[1], 10)) : null;
+}
+
+/**
+ * Check whether a URI names a resource we serve
+ */
+export function isKnownResource(uri: string): boolean {
+    return getResourceTool(uri) !== null;
+}
+
+/**
+ * Subscribe a client session to update notifications for a resource
+ */
+export function subscribeResource(clientSessionId: string, uri: string): void {
+    if (!subscriptions.has(clientSessionId)) {
+        subscriptions.set(clientSessionId, new Set());
+    }
+    subscriptions.get(clientSessionId)!.add(uri);
+    logger.info(`[Resources] Session ${clientSessionId} subscribed to ${uri}`);
+}
+
+/**
+ * Unsubscribe a client session from update notifications for a resource
+ */
+export function unsubscribeResource(clientSessionId: string, uri: string): void {
+    subscriptions.get(clientSessionId)?.delete(uri);
+    logger.info(`[Resources] Session ${clientSessionId} unsubscribed from ${uri}`);
+}
+
+/**
+ * Drop every subscription of a client session
+ */
+export function clearResourceSubscriptions(clientSessionId: string): void {
+    subscriptions.delete(clientSessionId);
+}
+
+/**
+ * Call notify for each subscription whose resource changes with debugger or breakpoint events
+ */
+export function watchResourceChanges(notify: (clientSessionId: string, uri: string) => void): vscode.Disposable {
+    const notifyMatching = (predicate: (uri: string) => boolean) => {
+        for (const [clientSessionId, uris] of subscriptions) {
+            for (const uri of uris) {
+                if (predicate(uri)) {
+                    notify(clientSessionId, uri);
+                }
+            }
+        }
+    };
+
+    const debugEvents = debugState.onDidDebugEvent((event) => {
+        if (event.event === 'stopped' || event.event === 'continued' || event.event === 'terminated') {
+            // Stack, variables and frame contents all change when execution state changes
+            notifyMatching(uri => uri !== BREAKPOINTS_URI);
+        } else if (event.event === 'thread') {
+            notifyMatching(uri => uri === SESSION_THREADS_URI);
+        }
+    });
+
+    const breakpointChanges = vscode.debug.onDidChangeBreakpoints(() => {
+        notifyMatching(uri => uri === BREAKPOINTS_URI);
+    });
+
+    return vscode.Disposable.from(debugEvents, breakpointChanges);
+}
+
+/**
+ * Get threads of the current session via DAP
+ */
+async function getThreads(): Promise<any> {
+    const state = debugState.getCurrentSession();
+    if (!state) {
+        return {
+            success: false,
+            error: 'No active debug session'
+        };
+    }
+
+    try {
+        const response = await state.session.customRequest('threads');
+        const threads = (response?.threads || []).map((t: any) => ({
+            id: t.id,
+            name: t.name,
+            paused: t.id === state.getPausedThreadId() && state.isPaused
+        }));
+
+        return {
+            success: true,
+            sessionId: state.sessionId,
+            threads,
+            threadCount: threads.length
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: `Failed to get threads: ${error.message}`
+        };
+    }
+}
@@ -0,0 +1,892 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as vscode from 'vscode';
+import { logger } from './logger';
+import { CancelledError } from './cancellation';
+import { OutputBuffer } from './output-buffer';
+
+/**
+ * Thread state tracking
+ */
+interface ThreadState {
+    id: number;
+    name: string;
+    stopped: boolean;
+    reason?: string;
+}
+
+/**
+ * Debug events pushed to listeners (e.g. MCP clients over SSE)
+ */
+export type DebugEventType = 'stopped' | 'continued' | 'thread' | 'output' | 'terminated';
+
+export interface DebugEvent {
+    event: DebugEventType;
+    sessionId: string;
+    sessionName: string;
+    // Set for child sessions (subprocesses, workers)
+    parentSessionId?: string;
+    body: any;
+    timestamp: number;
+}
+
+/**
+ * Where a session was last paused
+ */
+export interface StopLocation {
+    reason: string;
+    file: string | null;
+    line: number | null;
+    function: string | null;
+    timestamp: number;
+}
+
+/**
+ * An exception the debugger stopped on (DAP exceptionInfo when the adapter supports it)
+ */
+export interface ExceptionDetails {
+    exceptionId?: string;
+    description?: string;
+    breakMode?: string;
+    stackTrace?: string;
+}
+
+/**
+ * How a debug session ended, kept after it is gone
+ */
+export interface SessionResult {
+    sessionId: string;
+    name: string;
+    type: string;
+    parentSessionId: string | null;
+    startedAt: number;
+    endedAt: number;
+    // From the exited event; null when the adapter reported none (e.g. stopped or detached)
+    exitCode: number | null;
+    // Body of the terminated event; null when the session ended without one
+    terminatedEvent: any | null;
+    lastStop: StopLocation | null;
+    exception: ExceptionDetails | null;
+    outputTail: string;
+}
+
+/**
+ * Program output that matched an output watch (debug_breakOnOutput)
+ */
+export interface OutputMatch {
+    watchId: string;
+    pattern: string;
+    text: string;
+    sessionId: string;
+    timestamp: number;
+}
+
+/**
+ * Session state - execution state of one debug session (one debug adapter).
+ * Compound launches and child processes each get their own.
+ */
+export class SessionState {
+    readonly sessionId: string;
+    readonly parentSessionId: string | null;
+    readonly startedAt: number = Date.now();
+
+    currentFile: string | null = null;
+    currentLine: number | null = null;
+    currentFunction: string | null = null;
+    isPaused: boolean = false;
+    isInEventLoop: boolean = false; // Track if we're in event loop waiting state
+    stackFrames: any[] = [];
+
+    // Program output (stdout, stderr, console) reported by the debug adapter
+    readonly output: OutputBuffer;
+
+    // Process id of the terminal shell the program runs in (console: integratedTerminal)
+    terminalProcessId: number | null = null;
+
+    // What the debug adapter supports (supportsRestartRequest, supportsRestartFrame...),
+    // from its initialize response and capabilities events
+    capabilities: Record<string, any> = {};
+
+    // Track thread states
+    private threads: Map<number, ThreadState> = new Map();
+    private mainThreadId: number | null = null;
+
+    // Store paused frame info captured from activeStackItem
+    private pausedThreadId: number | null = null;
+    private pausedFrameId: number | null = null;
+    private pausedLine: number | null = null;
+    private pausedFunction: string | null = null;
+    private pausedFile: string | null = null;
+
+    // stopped/terminated events nobody was waiting for (cleared when execution resumes),
+    // and the callers of waitForStop waiting for the next one
+    private stopEventQueue: DebugEvent[] = [];
+    private stopWaiters: Array<(event: DebugEvent) => void> = [];
+    private static readonly MAX_QUEUED_STOP_EVENTS = 20;
+
+    // Output match a pause was requested for, reported with the stop it leads to
+    private pendingOutputMatch: OutputMatch | null = null;
+
+    // How the run is going, for the result recorded when the session ends
+    private exitCode: number | null = null;
+    private terminatedEvent: any | null = null;
+    private lastStop: StopLocation | null = null;
+    private lastException: ExceptionDetails | null = null;
+    private static readonly MAX_RESULT_OUTPUT = 2000;
+
+    constructor(
+        readonly session: vscode.DebugSession,
+        private readonly breakpoints: Map<string, vscode.Breakpoint[]>,
+        private readonly emit: (event: DebugEvent) => void
+    ) {
+        this.sessionId = session.id;
+        this.parentSessionId = session.parentSession?.id ?? null;
+        this.output = new OutputBuffer(session.id);
+        this.currentFile = session.configuration.program ?? null;
+    }
+
+    get name(): string {
+        return this.session.name;
+    }
+
+    get type(): string {
+        return this.session.type;
+    }
+
+    /**
+     * Handle a DAP event sent by this session's debug adapter
+     */
+    handleDebugAdapterEvent(event: { event: string; body?: any }): void {
+        logger.debug(`[${this.name}] Debug event received:`, event.event, event.body);
+
+        // Handle stopped events (breakpoint hit, step complete, pause)
+        if (event.event === 'stopped') {
+            const threadId = event.body?.threadId;
+            const reason = event.body?.reason;
+
+            // Update thread state
+            if (threadId) {
+                const thread = this.threads.get(threadId);
+                if (thread) {
+                    thread.stopped = true;
+                    thread.reason = reason;
+                } else {
+                    this.threads.set(threadId, {
+                        id: threadId,
+                        name: `Thread ${threadId}`,
+                        stopped: true,
+                        reason: reason
+                    });
+                }
+            }
+
+            // ALWAYS set isPaused when stopped event fires
+            // Let checkIfInEventLoop decide if it should be FALSE
+            this.isPaused = true;
+            logger.info(`✅ [${this.name}] Thread ${threadId} STOPPED (${reason}) - isPaused set to TRUE`);
+
+            const outputMatch = this.pendingOutputMatch;
+            this.pendingOutputMatch = null;
+
+            if (reason === 'exception') {
+                this.captureException(threadId, event.body);
+            }
+
+            // Update current position from the stopped event, then notify listeners
+            this.updateCurrentPosition().then(() => {
+                this.lastStop = {
+                    reason,
+                    file: this.currentFile,
+                    line: this.currentLine,
+                    function: this.currentFunction,
+                    timestamp: Date.now()
+                };
+                this.fireDebugEvent('stopped', {
+                    ...event.body,
+                    file: this.currentFile,
+                    line: this.currentLine,
+                    function: this.currentFunction,
+                    // Paused because of an output watch: say what matched and where the program was
+                    ...(outputMatch ? {
+                        outputMatch,
+                        stack: this.stackFrames.map(frame => ({
+                            name: frame.name,
+                            file: frame.source?.path ?? frame.source?.name,
+                            line: frame.line
+                        }))
+                    } : {})
+                });
+            });
+        }
+
+        // Handle continued events
+        if (event.event === 'continued') {
+            const threadId = event.body?.threadId;
+
+            // Update thread state
+            if (threadId) {
+                const thread = this.threads.get(threadId);
+                if (thread) {
+                    thread.stopped = false;
+                    thread.reason = undefined;
+                }
+            }
+
+            // Check if main thread is continuing
+            if (threadId === this.mainThreadId || !threadId) {
+                this.isPaused = false;
+                this.isInEventLoop = false;
+                this.stopEventQueue = [];
+                logger.info(`▶️ [${this.name}] Main thread CONTINUED - isPaused set to FALSE`);
+            }
+        }
+
+        // Handle thread events
+        if (event.event === 'thread') {
+            const threadId = event.body?.threadId;
+            const reason = event.body?.reason;
+
+            if (reason === 'started') {
+                logger.info(`🧵 [${this.name}] Thread ${threadId} started`);
+                this.threads.set(threadId, {
+                    id: threadId,
+                    name: `Thread ${threadId}`,
+                    stopped: false
+                });
+
+                // First thread is usually the main thread
+                if (!this.mainThreadId) {
+                    this.mainThreadId = threadId;
+                    logger.info(`📌 [${this.name}] Main thread ID: ${threadId}`);
+                }
+            } else if (reason === 'exited') {
+                logger.info(`🧵 [${this.name}] Thread ${threadId} exited`);
+                this.threads.delete(threadId);
+            }
+        }
+
+        if (event.event === 'capabilities') {
+            this.handleCapabilities(event.body?.capabilities);
+        }
+
+        // Remember how the program ended
+        if (event.event === 'exited') {
+            this.exitCode = event.body?.exitCode ?? null;
+            logger.info(`🏁 [${this.name}] Program exited with code ${this.exitCode}`);
+        }
+        if (event.event === 'terminated') {
+            this.terminatedEvent = event.body ?? {};
+        }
+
+        // Keep program output for debug_getOutput (DAP's default category is console)
+        if (event.event === 'output' && typeof event.body?.output === 'string' && event.body.category !== 'telemetry') {
+            this.output.append(event.body.category ?? 'console', event.body.output);
+        }
+
+        // Forward the remaining pushed events as-is (stopped is fired once the position is known)
+        if (event.event === 'continued' || event.event === 'thread' ||
+            event.event === 'output' || event.event === 'terminated') {
+            this.fireDebugEvent(event.event, event.body);
+        }
+    }
+
+    /**
+     * Record capabilities reported by the debug adapter
+     */
+    handleCapabilities(capabilities: Record<string, any> | undefined): void {
+        this.capabilities = { ...this.capabilities, ...capabilities };
+    }
+
+    /**
+     * The adapter is restarting the program in place (DAP restart request) - forget where it was paused
+     */
+    handleRestart(): void {
+        this.isPaused = false;
+        this.isInEventLoop = false;
+        this.stackFrames = [];
+        this.stopEventQueue = [];
+        this.clearPausedFrameInfo();
+    }
+
+    /**
+     * The program was launched in a VS Code terminal (runInTerminal response)
+     */
+    handleRunInTerminal(body: { processId?: number; shellProcessId?: number } | undefined): void {
+        this.terminalProcessId = body?.shellProcessId ?? body?.processId ?? null;
+        logger.debug(`[${this.name}] Running in terminal, process ${this.terminalProcessId}`);
+    }
+
+    /**
+     * Handle a change of VS Code's focused stack item within this session
+     * Key insight: activeStackItem has frameId ONLY when actually paused
+     * - Not paused: {session, threadId} - NO frameId
+     * - Paused: {session, threadId, frameId} - HAS frameId
+     */
+    async handleActiveStackItem(stackItem: any): Promise<void> {
+        // Check if frameId exists - this is the reliable indicator of being paused
+        const hasFrameId = 'frameId' in stackItem && stackItem.frameId !== undefined;
+
+        logger.debug(`Stack item has frameId: ${hasFrameId}`);
+
+        if (hasFrameId) {
+            // Has frameId = actually paused at a specific stack frame
+            this.isPaused = true;
+            logger.info(`📍 [${this.name}] Stack item has frameId - isPaused set to TRUE`);
+
+            // Extract frame info
+            this.pausedThreadId = stackItem.threadId;
+            this.pausedFrameId = stackItem.frameId;
+            logger.debug(`Captured threadId: ${this.pausedThreadId}, frameId: ${this.pausedFrameId}`);
+
+            // Fetch full frame details
+            await this.captureFrameDetails(stackItem);
+        } else {
+            // Has threadId but NO frameId = connected but not paused (running)
+            this.isPaused = false;
+            this.isInEventLoop = false;
+            logger.info(`📍 [${this.name}] Stack item has NO frameId - isPaused set to FALSE (running)`);
+
+            // Still capture threadId for reference
+            if ('threadId' in stackItem) {
+                this.pausedThreadId = stackItem.threadId;
+            }
+        }
+    }
+
+    /**
+     * Handle VS Code clearing the focused stack item (no debug context)
+     */
+    handleStackItemCleared(): void {
+        this.isPaused = false;
+        this.isInEventLoop = false;
+        this.clearPausedFrameInfo();
+    }
+
+    /**
+     * The session ended - release anyone still waiting for it to stop
+     */
+    handleSessionTerminated(): void {
+        // Some adapters exit without a terminated event - don't leave waiters hanging
+        if (this.stopWaiters.length > 0) {
+            this.deliverStopEvent({
+                event: 'terminated',
+                sessionId: this.sessionId,
+                sessionName: this.name,
+                ...(this.parentSessionId ? { parentSessionId: this.parentSessionId } : {}),
+                body: {},
+                timestamp: Date.now()
+            });
+        }
+        this.stopEventQueue = [];
+    }
+
+    /**
+     * Summary of the session for listings
+     */
+    describe(): any {
+        return {
+            sessionId: this.sessionId,
+            name: this.name,
+            type: this.type,
+            request: this.session.configuration.request,
+            parentSessionId: this.parentSessionId,
+            paused: this.isPaused,
+            file: this.currentFile,
+            line: this.currentLine,
+            function: this.currentFunction,
+            startedAt: new Date(this.startedAt).toISOString()
+        };
+    }
+
+    /**
+     * How the session ended, recorded when it terminates
+     */
+    getResult(): SessionResult {
+        const output = this.output.query().map(entry => entry.output).join('');
+        return {
+            sessionId: this.sessionId,
+            name: this.name,
+            type: this.type,
+            parentSessionId: this.parentSessionId,
+            startedAt: this.startedAt,
+            endedAt: Date.now(),
+            exitCode: this.exitCode,
+            terminatedEvent: this.terminatedEvent,
+            lastStop: this.lastStop,
+            exception: this.lastException,
+            outputTail: output.slice(-SessionState.MAX_RESULT_OUTPUT)
+        };
+    }
+
+    /**
+     * Record the exception the debugger stopped on
+     */
+    private async captureException(threadId: number | undefined, body: any): Promise<void> {
+        this.lastException = {
+            description: body?.description ?? body?.text
+        };
+        if (!threadId) {
+            return;
+        }
+
+        try {
+            const info = await this.session.customRequest('exceptionInfo', { threadId });
+            this.lastException = {
+                exceptionId: info?.exceptionId,
+                description: info?.description ?? info?.details?.message ?? this.lastException.description,
+                breakMode: info?.breakMode,
+                stackTrace: info?.details?.stackTrace
+            };
+        } catch (error) {
+            // Not every adapter supports exceptionInfo - keep the stopped event's description
+            logger.debug(`[${this.name}] exceptionInfo not available: ${error}`);
+        }
+    }
+
+    /**
+     * Notify listeners of a debug event
+     */
+    private fireDebugEvent(event: DebugEventType, body: any): void {
+        const debugEvent: DebugEvent = {
+            event,
+            sessionId: this.sessionId,
+            sessionName: this.name,
+            ...(this.parentSessionId ? { parentSessionId: this.parentSessionId } : {}),
+            body: body ?? {},
+            timestamp: Date.now()
+        };
+
+        if (event === 'stopped' || event === 'terminated') {
+            this.deliverStopEvent(debugEvent);
+        }
+        this.emit(debugEvent);
+    }
+
+    /**
+     * A child session stopped - wake up anyone waiting for this session to stop
+     */
+    handleChildStopped(event: DebugEvent): void {
+        this.deliverStopEvent(event);
+    }
+
+    /**
+     * Hand a stopped/terminated event to the waiters, or queue it if nobody is waiting
+     */
+    private deliverStopEvent(event: DebugEvent): void {
+        if (this.stopWaiters.length === 0) {
+            this.stopEventQueue.push(event);
+            if (this.stopEventQueue.length > SessionState.MAX_QUEUED_STOP_EVENTS) {
+                this.stopEventQueue.shift();
+            }
+            return;
+        }
+
+        const waiters = this.stopWaiters;
+        this.stopWaiters = [];
+        for (const waiter of waiters) {
+            waiter(event);
+        }
+    }
+
+    /**
+     * Wait for the next stopped or terminated event; resolves with null on timeout.
+     *
+     * With includeQueued, an event that arrived while nobody was waiting is returned at once.
+     * Without it the queue is dropped first - call this BEFORE resuming execution so the
+     * resulting stop can't be missed.
+     */
+    waitForStop(timeoutMs: number, signal?: AbortSignal, options: { includeQueued?: boolean } = {}): Promise<DebugEvent | null> {
+        if (options.includeQueued) {
+            const queued = this.stopEventQueue.shift();
+            if (queued) {
+                return Promise.resolve(queued);
+            }
+        } else {
+            this.stopEventQueue = [];
+        }
+
+        if (signal?.aborted) {
+            return Promise.reject(new CancelledError(signal.reason));
+        }
+
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                this.stopWaiters = this.stopWaiters.filter(w => w !== waiter);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const waiter = (event: DebugEvent) => {
+                cleanup();
+                resolve(event);
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(new CancelledError(signal?.reason));
+            };
+            const timer = setTimeout(() => {
+                cleanup();
+                resolve(null);
+            }, timeoutMs);
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.stopWaiters.push(waiter);
+        });
+    }
+
+    /**
+     * Pause the program because its output matched a watch.
+     * Only the first match before the pause takes effect is reported.
+     */
+    async pauseForOutputMatch(match: OutputMatch): Promise<void> {
+        if (this.isPaused || this.pendingOutputMatch) {
+            return;
+        }
+
+        this.pendingOutputMatch = match;
+        logger.info(`🔎 [${this.name}] Output matched /${match.pattern}/ - pausing`);
+        try {
+            await this.session.customRequest('pause', { threadId: await this.getTargetThreadId() });
+        } catch (error) {
+            this.pendingOutputMatch = null;
+            logger.error(`[${this.name}] Failed to pause on output match:`, error);
+        }
+    }
+
+    /**
+     * Thread a DAP execution request applies to: the paused thread, else the first thread
+     */
+    async getTargetThreadId(): Promise<number> {
+        const threadId = this.getPausedThreadId();
+        if (threadId) {
+            return threadId;
+        }
+        const threadsResponse = await this.session.customRequest('threads');
+        if (!threadsResponse?.threads?.length) {
+            throw new Error('No threads available in debug session');
+        }
+        return threadsResponse.threads[0].id;
+    }
+
+    /**
+     * Update current position from debug session (fetch stack trace via DAP)
+     */
+    private async updateCurrentPosition() {
+        const session = this.session;
+        try {
+            // Get threads
+            const threadsResponse = await session.customRequest('threads');
+            if (!threadsResponse || !threadsResponse.threads || threadsResponse.threads.length === 0) {
+                return;
+            }
+
+            // Update thread tracking
+            for (const thread of threadsResponse.threads) {
+                this.threads.set(thread.id, {
+                    id: thread.id,
+                    name: thread.name,
+                    stopped: thread.stopped === true
+                });
+
+                // Track main thread
+                if (!this.mainThreadId && thread.name?.toLowerCase().includes('main')) {
+                    this.mainThreadId = thread.id;
+                }
+            }
+
+            // Find stopped thread (prefer main thread if stopped)
+            let targetThread = null;
+            if (this.mainThreadId) {
+                const mainThread = this.threads.get(this.mainThreadId);
+                if (mainThread?.stopped) {
+                    targetThread = mainThread;
+                }
+            }
+
+            // If main thread not stopped, find any stopped thread
+            if (!targetThread) {
+                targetThread = Array.from(this.threads.values()).find(t => t.stopped);
+            }
+
+            if (!targetThread) {
+                // No stopped threads
+                this.isPaused = false;
+                logger.info('⚠️ No stopped threads - isPaused = FALSE');
+                return;
+            }
+
+            // Get stack trace for the stopped thread
+            const stackResponse = await session.customRequest('stackTrace', {
+                threadId: targetThread.id,
+                startFrame: 0,
+                levels: 20
+            });
+
+            if (stackResponse && stackResponse.stackFrames && stackResponse.stackFrames.length > 0) {
+                const topFrame = stackResponse.stackFrames[0];
+                this.stackFrames = stackResponse.stackFrames;
+                this.currentLine = topFrame.line;
+                this.currentFunction = topFrame.name;
+
+                if (topFrame.source && topFrame.source.path) {
+                    this.currentFile = topFrame.source.path;
+                }
+
+                logger.info(`Position updated: ${this.currentFunction} at ${this.currentFile}:${this.currentLine}`);
+
+                // Check if we're in event loop
+                await this.checkIfInEventLoop(targetThread.id);
+            }
+        } catch (error) {
+            logger.error('Error updating current position:', error);
+        }
+    }
+
+    /**
+     * Check if we're paused in an event loop using DAP evaluate
+     */
+    private async checkIfInEventLoop(threadId: number): Promise<void> {
+        const session = this.session;
+
+        // Only check for Python debugpy
+        if (session.configuration.type !== 'debugpy' && session.configuration.type !== 'python') {
+            this.isInEventLoop = false;
+            return;
+        }
+
+        try {
+            // Try to evaluate asyncio state
+            const evalResponse = await session.customRequest('evaluate', {
+                expression: 'import asyncio; loop = asyncio.get_running_loop(); (loop.get_debug(), len(asyncio.all_tasks(loop)))',
+                frameId: this.stackFrames[0]?.id,
+                context: 'repl'
+            });
+
+            if (evalResponse && evalResponse.result) {
+                // Parse the tuple result: (debug_enabled, task_count)
+                const match = evalResponse.result.match(/\((\w+),\s*(\d+)\)/);
+                if (match) {
+                    const debugEnabled = match[1] === 'True';
+                    const taskCount = parseInt(match[2], 10);
+
+                    // Check if we're near a breakpoint
+                    const nearBreakpoint = this.isNearBreakpoint();
+
+                    // We're in event loop if:
+                    // - Multiple tasks running (>1)
+                    // - Not near a user breakpoint
+                    // - In framework/asyncio code
+                    this.isInEventLoop = taskCount > 1 && !nearBreakpoint && this.isFrameworkCode();
+
+                    if (this.isInEventLoop) {
+                        logger.info(`⚠️ IN EVENT LOOP: ${taskCount} tasks, debug=${debugEnabled}, nearBP=${nearBreakpoint}`);
+                        logger.info(`   Setting isPaused = FALSE (event loop waiting state)`);
+                        this.isPaused = false;
+                    } else {
+                        logger.info(`✅ VALID PAUSE: tasks=${taskCount}, nearBP=${nearBreakpoint}`);
+                        // Keep isPaused = true (already set by stopped event)
+                    }
+                }
+            }
+        } catch (error) {
+            // asyncio not available or not in async context - not in event loop
+            this.isInEventLoop = false;
+            // Keep isPaused = true (already set by stopped event)
+            logger.info('✅ Not in async context - valid pause state');
+        }
+    }
+
+    /**
+     * Check if current position is near a user breakpoint (within 5 lines)
+     */
+    private isNearBreakpoint(): boolean {
+        if (!this.currentFile || !this.currentLine) {
+            return false;
+        }
+
+        const breakpointsInFile = this.breakpoints.get(this.currentFile) || [];
+        return breakpointsInFile.some(bp => {
+            if (bp instanceof vscode.SourceBreakpoint) {
+                const bpLine = bp.location.range.start.line + 1; // 0-indexed to 1-indexed
+                return Math.abs(this.currentLine! - bpLine) <= 5;
+            }
+            return false;
+        });
+    }
+
+    /**
+     * Check if current position is in framework/library code
+     */
+    private isFrameworkCode(): boolean {
+        if (!this.currentFile && !this.currentFunction) {
+            return false;
+        }
+
+        // Framework/library paths
+        const frameworkPaths = [
+            '/uvicorn/', '/starlette/', '/fastapi/',
+            '/flask/', '/django/', '/tornado/',
+            '/asyncio/', '/selectors/', '/socket',
+            'site-packages/', 'dist-packages/',
+            'node_modules/', '/express/', '/koa/'
+        ];
+
+        const isFrameworkPath = frameworkPaths.some(path =>
+            this.currentFile?.toLowerCase().includes(path)
+        );
+
+        // Event loop function names
+        const eventLoopFunctions = [
+            'run', '_run', 'serve', '_serve', 'listen', '_listen',
+            'loop', 'event_loop', 'run_forever', 'run_until_complete',
+            'select', 'poll', 'epoll', 'kqueue',
+            'wait', '_wait', 'wait_for', '__aexit__', '__aenter__'
+        ];
+
+        const isEventLoopFunction = eventLoopFunctions.some(fn =>
+            this.currentFunction?.toLowerCase().includes(fn)
+        );
+
+        return isFrameworkPath || isEventLoopFunction;
+    }
+
+    /**
+     * Capture frame details from active stack item
+     */
+    private async captureFrameDetails(stackItem: any): Promise<void> {
+        try {
+            const threadId = stackItem.threadId;
+            logger.debug(`Capturing frame details for thread ${threadId}`);
+
+            const response = await this.session.customRequest('stackTrace', {
+                threadId: threadId,
+                startFrame: 0,
+                levels: 20
+            });
+
+            if (response?.stackFrames?.length > 0) {
+                const frame = response.stackFrames[0];
+                this.pausedThreadId = threadId;
+                this.pausedFrameId = frame.id;
+                this.pausedLine = frame.line;
+                this.pausedFunction = frame.name;
+                this.pausedFile = frame.source?.path;
+
+                // Also update current* properties for backward compatibility
+                this.currentLine = frame.line;
+                this.currentFunction = frame.name;
+                this.currentFile = frame.source?.path;
+                this.stackFrames = response.stackFrames;
+
+                logger.debug(`Frame captured: ${this.pausedFunction} at ${this.pausedFile}:${this.pausedLine}`);
+                logger.debug(`ThreadId: ${this.pausedThreadId}, FrameId: ${this.pausedFrameId}`);
+
+                // Check if we're in event loop
+                await this.checkIfInEventLoop(threadId);
+            }
+        } catch (error) {
+            logger.error('Error capturing frame details:', error);
+        }
+    }
+
+    /**
+     * Clear paused frame info when debugger resumes
+     */
+    private clearPausedFrameInfo(): void {
+        logger.debug(`Clearing paused frame info`);
+        this.pausedThreadId = null;
+        this.pausedFrameId = null;
+        this.pausedLine = null;
+        this.pausedFunction = null;
+        this.pausedFile = null;
+    }
+
+    /**
+     * Get stored paused thread ID (for getVariables, getStackTrace)
+     */
+    getPausedThreadId(): number | null {
+        return this.pausedThreadId;
+    }
+
+    /**
+     * Get stored paused frame ID (for evaluate)
+     */
+    getPausedFrameId(): number | null {
+        return this.pausedFrameId;
+    }
+
+    /**
+     * Manually refresh frame info when paused (NOT for setting isPaused state)
+     * isPaused is ONLY controlled by stopped/continued DAP events
+     */
+    async refreshPausedState(): Promise<void> {
+        logger.debug(`refreshPausedState() called for ${this.name} - current isPaused: ${this.isPaused}`);
+
+        // DO NOT use activeStackItem to set isPaused - it's unreliable
+        // isPaused is ONLY controlled by stopped/continued events
+        const session = this.session;
+
+        // If we think we're paused, try to refresh the position info
+        if (this.isPaused) {
+            try {
+                const threadsResponse = await session.customRequest('threads');
+                logger.debug(`Threads response:`, JSON.stringify(threadsResponse, null, 2));
+
+                if (threadsResponse && threadsResponse.threads && threadsResponse.threads.length > 0) {
+                    // Update all thread states
+                    for (const thread of threadsResponse.threads) {
+                        logger.debug(`Thread ${thread.id} (${thread.name}): stopped=${thread.stopped}`);
+                        this.threads.set(thread.id, {
+                            id: thread.id,
+                            name: thread.name,
+                            stopped: thread.stopped === true
+                        });
+                    }
+
+                    // Try to get stack trace to update position info
+                    const stoppedThread = Array.from(this.threads.values()).find(t => t.stopped);
+                    if (stoppedThread) {
+                        try {
+                            const stackResponse = await session.customRequest('stackTrace', {
+                                threadId: stoppedThread.id,
+                                startFrame: 0,
+                                levels: 20
+                            });
+
+                            if (stackResponse?.stackFrames?.length > 0) {
+                                // Update position info
+                                const topFrame = stackResponse.stackFrames[0];
+                                this.stackFrames = stackResponse.stackFrames;
+                                this.currentLine = topFrame.line;
+                                this.currentFunction = topFrame.name;
+                                if (topFrame.source && topFrame.source.path) {
+                                    this.currentFile = topFrame.source.path;
+                                }
+                                logger.info(`🔄 Refreshed position: ${this.currentFunction} at ${this.currentFile}:${this.currentLine}`);
+                            }
+                        } catch (stackError) {
+                            logger.info('⚠️ Error getting stack trace:', stackError);
+                        }
+                    }
+                }
+            } catch (error) {
+                logger.error('Error refreshing frame info:', error);
+            }
+        }
+    }
+}
@@ -62,7 +62,8 @@ export class StatusBarManager {
      * Update status bar based on current debug state
      */
     private updateStatusBar() {
-        if (!debugState.isActive()) {
+        const state = debugState.getCurrentSession();
+        if (!state) {
             // No active session - but don't update if custom status is active
             // (let custom status methods handle all user-facing states)
             if (!this.customStatusActive) {
@@ -70,28 +71,28 @@ export class StatusBarManager {
                 // but keep as safety fallback
                 return;
             }
-        } else if (debugState.isPaused && !debugState.isInEventLoop) {
+        } else if (state.isPaused && !state.isInEventLoop) {
             // Paused at breakpoint (but NOT in event loop)
-            const location = debugState.currentLine 
-                ? `line ${debugState.currentLine}`
+            const location = state.currentLine 
+                ? `line ${state.currentLine}`
                 : 'breakpoint';
-            const func = debugState.currentFunction || 'unknown';
+            const func = state.currentFunction || 'unknown';
             
             this.statusBarItem.text = `$(debug-pause) Killer Bug: Paused at ${location}`;
             this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
             this.statusBarItem.command = 'killerBug.showOutput';
-            this.statusBarItem.tooltip = `Killer Bug AI Debugger - Paused\nFunction: ${func}\nLine: ${debugState.currentLine || 'unknown'}\nClick to show output`;
+            this.statusBarItem.tooltip = `Killer Bug AI Debugger - Paused\nFunction: ${func}\nLine: ${state.currentLine || 'unknown'}\nClick to show output`;
             this.customStatusActive = false;
         } else {
             // Running (or in event loop)
-            const statusText = debugState.isInEventLoop 
+            const statusText = state.isInEventLoop 
                 ? 'Running (event loop)'
                 : 'Running';
             
             this.statusBarItem.text = `$(debug-alt) Killer Bug: ${statusText}`;
             this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.prominentBackground');
             this.statusBarItem.command = 'killerBug.showOutput';
-            this.statusBarItem.tooltip = debugState.isInEventLoop
+            this.statusBarItem.tooltip = state.isInEventLoop
                 ? 'Killer Bug AI Debugger - Running in event loop\nWaiting for requests\nClick to show output'
                 : 'Killer Bug AI Debugger - Running\nClick to show output';
             this.customStatusActive = false;
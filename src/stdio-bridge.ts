@@ -0,0 +1,399 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Stdio Bridge - standalone entry point for stdio-only MCP clients.
+ *
+ * The client launches `node dist/stdio-bridge.js [--project <path>]`. The bridge looks up
+ * the Killer Bug instance running for that project in ~/.killer-bug-ports.json and relays
+ * newline-delimited JSON-RPC between stdin/stdout and the instance's HTTP /mcp endpoint.
+ *
+ * stdout carries protocol messages only - all diagnostics go to stderr.
+ */
+
+import * as http from 'http';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PortRegistry } from './port-registry';
+import { ProjectMCPConfigManager } from './project-mcp-config';
+
+const HOST = '127.0.0.1';
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Statuses meaning the instance no longer knows our session (it restarted) or our token
+const SESSION_LOST_STATUSES = [401, 404];
+
+/**
+ * Response of the instance to a POST to /mcp
+ */
+interface PostResponse {
+    status: number;
+    body: string;
+    sessionId?: string;
+}
+
+/**
+ * Log a diagnostic line (stderr, never stdout)
+ */
+function log(message: string): void {
+    process.stderr.write(`[Killer Bug Bridge] ${message}\n`);
+}
+
+/**
+ * Write a JSON-RPC message to the client
+ */
+function send(message: any): void {
+    process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+/**
+ * Resolve the project path from --project, KILLER_BUG_PROJECT or the working directory
+ */
+function resolveProjectPath(argv: string[]): string {
+    const flagIndex = argv.indexOf('--project');
+    if (flagIndex !== -1 && argv[flagIndex + 1]) {
+        return path.resolve(argv[flagIndex + 1]);
+    }
+    if (process.env.KILLER_BUG_PROJECT) {
+        return path.resolve(process.env.KILLER_BUG_PROJECT);
+    }
+    return process.cwd();
+}
+
+/**
+ * Check whether a Killer Bug server answers on the given port
+ */
+function isKillerBugServer(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+        const req = http.get({ host: HOST, port, path: '/health', timeout: 2000 }, (res) => {
+            let body = '';
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => {
+                try {
+                    resolve(JSON.parse(body).server === 'killer-bug-ai-debugger');
+                } catch {
+                    resolve(false);
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy());
+        req.on('error', () => resolve(false));
+    });
+}
+
+/**
+ * Find the running instance for the project (or one of its parent folders)
+ */
+async function findRunningInstance(projectPath: string): Promise<{ port: number; projectRoot: string } | null> {
+    let dir = projectPath;
+    while (true) {
+        for (const port of PortRegistry.getPortsForProject(dir)) {
+            if (await isKillerBugServer(port)) {
+                return { port, projectRoot: dir };
+            }
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Read the project's bearer token from .vscode/mcp.json or .cursor/mcp.json
+ */
+function readAuthToken(projectRoot: string): string | undefined {
+    return new ProjectMCPConfigManager(projectRoot, 'vscode').getStatus().token
+        || new ProjectMCPConfigManager(projectRoot, 'cursor').getStatus().token;
+}
+
+/**
+ * Relays JSON-RPC between stdio and the HTTP transport of one extension instance
+ */
+class StdioBridge {
+    private port: number | null = null;
+    private authToken: string | undefined;
+    private clientSessionId: string | undefined;
+    private eventStreamOpen: boolean = false;
+    // The client's initialize request, replayed when the session has to be re-established
+    private initializeRequest: string | undefined;
+    private reconnecting: Promise<boolean> | null = null;
+
+    constructor(private projectPath: string) {}
+
+    /**
+     * Handle one line received on stdin
+     */
+    async handleLine(line: string): Promise<void> {
+        if (!line.trim()) {
+            return;
+        }
+
+        let message: any;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+            return;
+        }
+
+        if (message?.method === 'initialize') {
+            this.initializeRequest = line;
+        }
+
+        const port = await this.getPort();
+        if (port === null) {
+            const error = `No running Killer Bug instance found for project: ${this.projectPath}. ` +
+                'Open the project in VS Code or Cursor and start the server with "Killer Bug: Start AI Debugger".';
+            log(error);
+            if (message.id !== undefined) {
+                send({ jsonrpc: '2.0', id: message.id, error: { code: -32000, message: error } });
+            }
+            return;
+        }
+
+        try {
+            const sessionId = this.clientSessionId;
+            let response = await this.post(port, line);
+            if (SESSION_LOST_STATUSES.includes(response.status) && message?.method !== 'initialize') {
+                log(`Session rejected by port ${port} (HTTP ${response.status}) - reconnecting`);
+                if (!await this.reconnect(sessionId)) {
+                    if (message.id !== undefined) {
+                        send({
+                            jsonrpc: '2.0',
+                            id: message.id,
+                            error: {
+                                code: -32000,
+                                message: 'Lost the session with the Killer Bug server (it was restarted or its token changed) and could not re-establish it. Restart the MCP client.'
+                            }
+                        });
+                    }
+                    return;
+                }
+                response = await this.post(this.port!, line);
+            }
+            if (SESSION_LOST_STATUSES.includes(response.status)) {
+                this.resetConnection();
+            }
+
+            if (response.sessionId) {
+                this.clientSessionId = response.sessionId;
+            }
+            if (response.body) {
+                send(JSON.parse(response.body));
+            }
+            if (this.clientSessionId && this.port !== null) {
+                this.openEventStream(this.port);
+            }
+        } catch (error: any) {
+            // The instance may have been stopped - look it up again next time
+            this.resetConnection();
+            log(`Request to port ${port} failed: ${error.message}`);
+            if (message.id !== undefined) {
+                send({ jsonrpc: '2.0', id: message.id, error: { code: -32000, message: `Killer Bug server unreachable: ${error.message}` } });
+            }
+        }
+    }
+
+    /**
+     * Forget the instance and the session, so the next request looks them up again
+     */
+    private resetConnection(): void {
+        this.port = null;
+        this.clientSessionId = undefined;
+    }
+
+    /**
+     * Find the instance again and replay the client's initialize to get a new session.
+     * Requests failing at the same time share one attempt.
+     */
+    private reconnect(lostSessionId: string | undefined): Promise<boolean> {
+        if (this.reconnecting) {
+            return this.reconnecting;
+        }
+        // Another request already got a new session
+        if (this.clientSessionId !== lostSessionId && this.port !== null) {
+            return Promise.resolve(true);
+        }
+
+        this.reconnecting = (async () => {
+            this.resetConnection();
+            const port = await this.getPort();
+            if (port === null || !this.initializeRequest) {
+                return false;
+            }
+            const response = await this.post(port, this.initializeRequest);
+            if (response.status !== 200 || !response.sessionId) {
+                log(`Re-initialize on port ${port} failed (HTTP ${response.status})`);
+                this.resetConnection();
+                return false;
+            }
+            this.clientSessionId = response.sessionId;
+            await this.post(port, JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }));
+            log(`Re-established session on port ${port}`);
+            return true;
+        })().catch((error) => {
+            log(`Reconnect failed: ${error.message}`);
+            this.resetConnection();
+            return false;
+        }).finally(() => {
+            this.reconnecting = null;
+        });
+        return this.reconnecting;
+    }
+
+    /**
+     * Get (and cache) the port of the running instance
+     */
+    private async getPort(): Promise<number | null> {
+        if (this.port === null) {
+            const instance = await findRunningInstance(this.projectPath);
+            if (instance) {
+                this.port = instance.port;
+                this.authToken = readAuthToken(instance.projectRoot);
+                log(`Connected to Killer Bug on port ${this.port} for ${instance.projectRoot}`);
+            }
+        }
+        return this.port;
+    }
+
+    /**
+     * Authorization and session headers for the instance
+     */
+    private authHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (this.authToken) {
+            headers['Authorization'] = `Bearer ${this.authToken}`;
+        }
+        if (this.clientSessionId) {
+            headers['Mcp-Session-Id'] = this.clientSessionId;
+        }
+        return headers;
+    }
+
+    /**
+     * POST a JSON-RPC payload to /mcp, resolving with the status, the response body
+     * (empty for notifications) and the session id assigned by initialize
+     */
+    private post(port: number, body: string): Promise<PostResponse> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({
+                host: HOST,
+                port,
+                path: '/mcp',
+                method: 'POST',
+                timeout: REQUEST_TIMEOUT_MS,
+                headers: {
+                    ...this.authHeaders(),
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json, text/event-stream',
+                    'Content-Length': Buffer.byteLength(body)
+                }
+            }, (res) => {
+                let data = '';
+                res.setEncoding('utf8');
+                res.on('data', chunk => data += chunk);
+                res.on('end', () => resolve({
+                    status: res.statusCode ?? 0,
+                    body: data.trim(),
+                    sessionId: res.headers['mcp-session-id'] as string | undefined
+                }));
+            });
+            req.on('timeout', () => req.destroy(new Error('Request timed out')));
+            req.on('error', reject);
+            req.end(body);
+        });
+    }
+
+    /**
+     * Forward server-pushed notifications from the SSE stream to stdout
+     */
+    private openEventStream(port: number): void {
+        if (this.eventStreamOpen) {
+            return;
+        }
+        this.eventStreamOpen = true;
+
+        const req = http.get({
+            host: HOST,
+            port,
+            path: '/mcp',
+            headers: { ...this.authHeaders(), 'Accept': 'text/event-stream' }
+        }, (res) => {
+            if (res.statusCode !== 200) {
+                log(`Event stream not available (HTTP ${res.statusCode})`);
+                res.resume();
+                return;
+            }
+
+            let buffer = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => {
+                buffer += chunk;
+                let boundary: number;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const rawEvent = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary + 2);
+                    const data = rawEvent
+                        .split('\n')
+                        .filter(l => l.startsWith('data:'))
+                        .map(l => l.slice(5).trimStart())
+                        .join('\n');
+                    if (data) {
+                        process.stdout.write(data + '\n');
+                    }
+                }
+            });
+            res.on('end', () => {
+                this.eventStreamOpen = false;
+                log('Event stream closed');
+            });
+        });
+        req.on('error', (error) => {
+            this.eventStreamOpen = false;
+            log(`Event stream error: ${error.message}`);
+        });
+    }
+}
+
+/**
+ * Entry point
+ */
+function main(): void {
+    // Shared modules (e.g. PortRegistry) log with console.log - keep stdout for the protocol
+    console.log = console.error;
+
+    const projectPath = resolveProjectPath(process.argv.slice(2));
+    const bridge = new StdioBridge(projectPath);
+    log(`Starting stdio bridge for project: ${projectPath}`);
+
+    // Requests run concurrently (responses carry their ids), so a long-running
+    // tool call doesn't hold back the messages queued behind it
+    const pending = new Set<Promise<void>>();
+    const rl = readline.createInterface({ input: process.stdin });
+    rl.on('line', (line) => {
+        const task = bridge.handleLine(line).finally(() => pending.delete(task));
+        pending.add(task);
+    });
+    rl.on('close', () => {
+        Promise.all(pending).then(() => process.exit(0));
+    });
+}
+
+main();
@@ -0,0 +1,133 @@
+/*
+ * Killer Bug AI Debugger
+ * Copyright (C) 2025 Abhishek (fellowabhi)
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as vscode from 'vscode';
+import type { ToolDefinition } from './tools/registry';
+import { logger } from './logger';
+
+/**
+ * What to do when an AI client calls a tool
+ */
+export type ToolPolicyDecision = 'allow' | 'deny' | 'ask';
+
+// From most to least permissive
+const DECISION_STRICTNESS: ToolPolicyDecision[] = ['allow', 'ask', 'deny'];
+
+/**
+ * Tool Policy - user-configured permissions for AI tool calls.
+ *
+ * Settings:
+ * - killerBug.readOnly: only tools with the 'inspect' effect may run
+ * - killerBug.toolPolicy: { "<tool name>" | "*": "allow" | "deny" | "ask" }
+ *
+ * When a setting is defined at several levels (user, workspace, folder) the strictest
+ * value wins, so a checked-out repository can't relax the user's own policy.
+ */
+
+/**
+ * Decide whether a tool may run without asking (ask decisions are resolved by confirmToolCall)
+ */
+export function getToolPolicy(tool: ToolDefinition): { decision: ToolPolicyDecision; reason?: string } {
+    if (tool.effect !== 'inspect' && isReadOnlyMode()) {
+        return {
+            decision: 'deny',
+            reason: `Killer Bug is in read-only mode (killerBug.readOnly): ${tool.name} changes debugger state and is blocked. Only inspection tools are available.`
+        };
+    }
+
+    const decision = getConfiguredDecision(tool.name);
+    if (decision === 'deny') {
+        return {
+            decision,
+            reason: `${tool.name} is denied by the killerBug.toolPolicy setting.`
+        };
+    }
+    return { decision };
+}
+
+/**
+ * Whether read-only mode is on at any configuration level
+ */
+export function isReadOnlyMode(): boolean {
+    const setting = getPolicyConfiguration().inspect<boolean>('readOnly');
+    return [setting?.globalValue, setting?.workspaceValue, setting?.workspaceFolderValue].some(value => value === true);
+}
+
+/**
+ * Show a modal with the exact action and let the user approve or reject it
+ */
+export async function confirmToolCall(tool: ToolDefinition, args: any, clientName: string): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `${clientName} wants to run ${tool.name}`,
+        {
+            modal: true,
+            detail: describeToolCall(tool, args)
+        },
+        'Allow'
+    );
+
+    const approved = choice === 'Allow';
+    logger.info(`[Tool Policy] ${tool.name} ${approved ? 'approved' : 'rejected'} by user`);
+    return approved;
+}
+
+/**
+ * Human-readable description of what a tool call will do
+ */
+function describeToolCall(tool: ToolDefinition, args: any): string {
+    if (tool.name === 'debug_evaluate') {
+        return `Expression:\n\n${args.expression}${args.frameId !== undefined ? `\n\n(in frame ${args.frameId})` : ''}`;
+    }
+
+    const entries = Object.entries(args ?? {});
+    if (entries.length === 0) {
+        return tool.description.split('. ')[0];
+    }
+    return entries
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join('\n');
+}
+
+/**
+ * Strictest decision configured for a tool across user, workspace and folder settings
+ */
+function getConfiguredDecision(toolName: string): ToolPolicyDecision {
+    const setting = getPolicyConfiguration().inspect<Record<string, string>>('toolPolicy');
+    const levels = [setting?.defaultValue, setting?.globalValue, setting?.workspaceValue, setting?.workspaceFolderValue];
+
+    let strictest: ToolPolicyDecision = 'allow';
+    for (const policy of levels) {
+        const decision = policy?.[toolName] ?? policy?.['*'];
+        if (isDecision(decision) && DECISION_STRICTNESS.indexOf(decision) > DECISION_STRICTNESS.indexOf(strictest)) {
+            strictest = decision;
+        }
+    }
+    return strictest;
+}
+
+/**
+ * Settings scoped to the project the server runs for (the first workspace folder),
+ * so folder-level values are included
+ */
+function getPolicyConfiguration(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('killerBug', vscode.workspace.workspaceFolders?.[0]?.uri);
+}
+
+function isDecision(value: any): value is ToolPolicyDecision {
+    return DECISION_STRICTNESS.includes(value);
+}
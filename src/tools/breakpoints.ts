@@ -1,21 +1,62 @@
 import * as vscode from 'vscode';
-import { debugState } from '../debug-state';
+import { SessionState } from '../debug-state';
+import { ToolDefinition } from './registry';
+import { resolveTargetSession, SESSION_ID_PROPERTY } from './session-target';
+import { logger } from '../logger';
 
 /**
- * Handle breakpoint-related tool calls
+ * Breakpoint management tools
  */
-export async function handleBreakpointTool(toolName: string, args: any): Promise<any> {
-    switch (toolName) {
-        case 'debug_setBreakpoint':
-            return await debugSetBreakpoint(args);
-        case 'debug_removeBreakpoint':
-            return await debugRemoveBreakpoint(args);
-        case 'debug_listBreakpoints':
-            return await debugListBreakpoints();
-        default:
-            throw new Error(`Unknown breakpoint tool: ${toolName}`);
+export const breakpointTools: ToolDefinition[] = [
+    {
+        name: 'debug_setBreakpoint',
+        description: 'Set a breakpoint at a specific line in a file. IMPORTANT CLEANUP REQUIRED: You MUST track all breakpoints you create and remove them before ending the debug session using debug_removeBreakpoint. Failure to clean up will cause unexpected breaks in future sessions. NOTE: You may keep breakpoints if you plan to reuse them across multiple debug sessions for the same investigation.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'Absolute path to the file' },
+                line: { type: 'number', description: 'Line number (1-based)' },
+                condition: { type: 'string', description: 'Optional condition expression' },
+                sessionId: {
+                    ...SESSION_ID_PROPERTY,
+                    description: 'Debug session whose adapter should report whether the breakpoint is verified (optional, defaults to the active session). Breakpoints apply to all sessions.'
+                }
+            },
+            required: ['file', 'line']
+        },
+        effect: 'modify',
+        handler: (args) => debugSetBreakpoint(args)
+    },
+    {
+        name: 'debug_removeBreakpoint',
+        description: 'Remove a breakpoint from a specific line. CRITICAL: Always remove breakpoints you set during debugging before ending the final session. This is mandatory for clean state management. Use debug_listBreakpoints to verify all breakpoints that you added are removed before ending session. NOTE: You may temporarily keep breakpoints between related debug sessions if continuing the same investigation.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'Absolute path to the file' },
+                line: { type: 'number', description: 'Line number (1-based)' }
+            },
+            required: ['file', 'line']
+        },
+        effect: 'modify',
+        handler: (args) => debugRemoveBreakpoint(args)
+    },
+    {
+        name: 'debug_listBreakpoints',
+        description: 'List all breakpoints. Use this to track which breakpoints are active and verify cleanup.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: {
+                    ...SESSION_ID_PROPERTY,
+                    description: 'Debug session whose adapter should report whether each breakpoint is verified (optional, defaults to the active session)'
+                }
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugListBreakpoints(args.sessionId)
     }
-}
+];
 
 /**
  * Set a breakpoint at a specific line
@@ -24,8 +65,14 @@ async function debugSetBreakpoint(args: {
     file: string;
     line: number;
     condition?: string;
+    sessionId?: string;
 }): Promise<any> {
-    const { file, line, condition } = args;
+    const { file, line, condition, sessionId } = args;
+
+    const { state, error } = resolveTargetSession(sessionId);
+    if (sessionId !== undefined && !state) {
+        return error;
+    }
 
     // Validate file exists
     let fileUri: vscode.Uri;
@@ -77,6 +124,7 @@ async function debugSetBreakpoint(args: {
             condition: condition || null,
             verified: true,
             id: allBreakpoints.indexOf(newBreakpoint),
+            ...(state ? await describeAdapterBreakpoint(state, newBreakpoint) : {}),
         };
     }
 
@@ -130,24 +178,52 @@ async function debugRemoveBreakpoint(args: {
 /**
  * List all breakpoints
  */
-async function debugListBreakpoints(): Promise<any> {
+export async function debugListBreakpoints(sessionId?: string): Promise<any> {
+    const { state, error } = resolveTargetSession(sessionId);
+    if (sessionId !== undefined && !state) {
+        return error;
+    }
+
     const breakpoints = vscode.debug.breakpoints;
     
-    const breakpointList = breakpoints
+    const breakpointList = await Promise.all(breakpoints
         .filter(bp => bp instanceof vscode.SourceBreakpoint)
-        .map(bp => {
+        .map(async bp => {
             const sourceBp = bp as vscode.SourceBreakpoint;
             return {
                 file: sourceBp.location.uri.fsPath,
                 line: sourceBp.location.range.start.line + 1, // Convert to 1-based
                 condition: sourceBp.condition || null,
                 enabled: sourceBp.enabled,
+                ...(state ? await describeAdapterBreakpoint(state, sourceBp) : {}),
             };
-        });
+        }));
 
     return {
         success: true,
+        sessionId: state?.sessionId ?? null,
         count: breakpointList.length,
         breakpoints: breakpointList,
     };
 }
+
+/**
+ * How a session's debug adapter resolved a breakpoint (it may move or reject it)
+ */
+async function describeAdapterBreakpoint(state: SessionState, breakpoint: vscode.Breakpoint): Promise<Record<string, any>> {
+    try {
+        const resolved: any = await state.session.getDebugProtocolBreakpoint(breakpoint);
+        if (!resolved) {
+            return { sessionId: state.sessionId, verified: false, message: 'Not sent to this session yet' };
+        }
+        return {
+            sessionId: state.sessionId,
+            verified: resolved.verified === true,
+            ...(resolved.line !== undefined ? { resolvedLine: resolved.line } : {}),
+            ...(resolved.message ? { message: resolved.message } : {}),
+        };
+    } catch (error: any) {
+        logger.debug(`Could not resolve breakpoint in session ${state.sessionId}: ${error.message}`);
+        return { sessionId: state.sessionId };
+    }
+}
@@ -0,0 +1,62 @@
+import { debuggerControl } from '../debugger-control';
+import { ToolContext, ToolDefinition } from './registry';
+
+/**
+ * Multi-client control tools
+ */
+export const controlTools: ToolDefinition[] = [
+    {
+        name: 'debug_acquireControl',
+        description: 'Take exclusive control of the debugger when several AI clients share this server. While you hold control, other clients can only use inspection tools. WORKFLOW: Acquire control before starting, stepping or setting breakpoints, and call debug_releaseControl when you are done.',
+        inputSchema: { type: 'object', properties: {} },
+        effect: 'inspect',
+        handler: (args, context) => debugAcquireControl(context)
+    },
+    {
+        name: 'debug_releaseControl',
+        description: 'Release exclusive control of the debugger so other AI clients can drive it. CLEANUP: Always release control when your debugging task is finished.',
+        inputSchema: { type: 'object', properties: {} },
+        effect: 'inspect',
+        handler: (args, context) => debugReleaseControl(context)
+    }
+];
+
+/**
+ * Acquire the debugger control lease
+ */
+async function debugAcquireControl(context: ToolContext): Promise<any> {
+    const { granted, holder } = debuggerControl.acquire(context.clientSessionId);
+
+    if (!granted) {
+        return {
+            success: false,
+            error: `Debugger is controlled by another client (${holder?.clientName}). Inspection tools are still available.`,
+            controlledBy: holder,
+            hint: 'Retry debug_acquireControl later, or ask the user to stop the other client.'
+        };
+    }
+
+    return {
+        success: true,
+        message: 'You now control the debugger. Other clients are limited to inspection until you call debug_releaseControl.',
+        controlledBy: holder
+    };
+}
+
+/**
+ * Release the debugger control lease
+ */
+async function debugReleaseControl(context: ToolContext): Promise<any> {
+    if (!debuggerControl.release(context.clientSessionId)) {
+        return {
+            success: false,
+            error: 'You do not hold control of the debugger.',
+            controlledBy: debuggerControl.describeHolder()
+        };
+    }
+
+    return {
+        success: true,
+        message: 'Debugger control released.'
+    };
+}
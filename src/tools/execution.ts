@@ -1,47 +1,261 @@
 import * as vscode from 'vscode';
-import { debugState } from '../debug-state';
+import { DebugEvent, SessionState } from '../debug-state';
+import { ToolDefinition } from './registry';
+import { JSONSchema } from './schema-validation';
+import { resolveTargetSession, SESSION_ID_PROPERTY } from './session-target';
+import { logger } from '../logger';
 
 /**
- * Handle execution control tool calls
+ * Whether (and how long) an execution tool waits for the debugger to stop again
  */
-export async function handleExecutionTool(toolName: string, args: any): Promise<any> {
-    switch (toolName) {
-        case 'debug_continue':
-            return await debugContinue();
-        case 'debug_stepOver':
-            return await debugStepOver();
-        case 'debug_stepInto':
-            return await debugStepInto();
-        case 'debug_stepOut':
-            return await debugStepOut();
-        case 'debug_pause':
-            return await debugPause();
-        default:
-            throw new Error(`Unknown execution tool: ${toolName}`);
+interface WaitOptions {
+    wait?: boolean;
+    timeoutMs?: number;
+}
+
+/**
+ * Arguments of the execution tools
+ */
+interface ExecutionArgs extends WaitOptions {
+    sessionId?: string;
+}
+
+/**
+ * An execution action: the VS Code command used for the focused session,
+ * and the DAP request sent directly to any other session
+ */
+interface ExecutionStep {
+    // Actions without a workbench command always send the request
+    command?: string;
+    request: string;
+    // Request arguments (default: the thread to act on)
+    arguments?: Record<string, any>;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+
+const TIMEOUT_PROPERTY: JSONSchema = {
+    type: 'number',
+    minimum: 0,
+    maximum: 600000,
+    description: `How long to wait for the debugger to stop, in milliseconds (default: ${DEFAULT_WAIT_TIMEOUT_MS})`
+};
+
+const WAIT_PROPERTIES: Record<string, JSONSchema> = {
+    wait: {
+        type: 'boolean',
+        description: 'Wait until the debugger stops again (breakpoint, step finished, exception) or the session terminates before returning (default: true). Set false to return right away and call debug_waitForStop later.'
+    },
+    timeoutMs: TIMEOUT_PROPERTY
+};
+
+const EXECUTION_PROPERTIES: Record<string, JSONSchema> = {
+    ...WAIT_PROPERTIES,
+    sessionId: SESSION_ID_PROPERTY
+};
+
+/**
+ * Execution control tools
+ */
+export const executionTools: ToolDefinition[] = [
+    {
+        name: 'debug_continue',
+        description: 'Continue execution until next breakpoint. PREREQUISITE: Debugger must be paused (at breakpoint or after debug_pause). Will fail if debugger is running. IMPORTANT PLANNING: Before continuing, ensure you have breakpoints strategically placed if you want to catch the intended code path. Else you might miss your debugging target and has to retrigger it.',
+        inputSchema: { type: 'object', properties: EXECUTION_PROPERTIES },
+        effect: 'execute',
+        handler: (args, context) => debugContinue(args, context.signal)
+    },
+    {
+        name: 'debug_stepOver',
+        description: 'Step over the current line (execute without entering functions). PREREQUISITE: Debugger must be paused.',
+        inputSchema: { type: 'object', properties: EXECUTION_PROPERTIES },
+        effect: 'execute',
+        handler: (args, context) => debugStepOver(args, context.signal)
+    },
+    {
+        name: 'debug_stepInto',
+        description: 'Step into function call on current line. PREREQUISITE: Debugger must be paused and current line must contain a function call. IMPORTANT: Only step into if you want to debug that specific function. Stepping into system/library functions will lose you in framework code. Instead: set breakpoints at your target locations and use debug_continue, or use debug_stepOver to skip uninteresting functions.',
+        inputSchema: { type: 'object', properties: EXECUTION_PROPERTIES },
+        effect: 'execute',
+        handler: (args, context) => debugStepInto(args, context.signal)
+    },
+    {
+        name: 'debug_stepOut',
+        description: 'Step out of current function (resume until function returns). PREREQUISITE: Debugger must be paused inside a function. Use this to escape deep call stacks. The execution will continue until the current function returns, then pause at the return location.',
+        inputSchema: { type: 'object', properties: EXECUTION_PROPERTIES },
+        effect: 'execute',
+        handler: (args, context) => debugStepOut(args, context.signal)
+    },
+    {
+        name: 'debug_pause',
+        description: 'Pause execution at current location. Use when debugger is running and you need to stop it to inspect state. Does not require breakpoints. WORKFLOW: Use this only when: 1) Code is actively running and you need to inspect mid-execution, 2) You want to interrupt a long-running operation, 3) You\'re debugging infinite loops. For targeted debugging, prefer setting breakpoints instead of relying on pause.',
+        inputSchema: { type: 'object', properties: EXECUTION_PROPERTIES },
+        effect: 'execute',
+        handler: (args, context) => debugPause(args, context.signal)
+    },
+    {
+        name: 'debug_restartFrame',
+        description: 'Re-run the current function from its start, keeping the program\'s other state. Use this to step through a function again after you stepped past the interesting part. PREREQUISITE: Debugger must be paused, and the debugger must support restarting frames (e.g. Node). Not every frame can be restarted (e.g. async or native frames). Side effects the function already had are not undone.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                frameId: { type: 'number', description: 'Stack frame to restart, from debug_getStackTrace (optional, defaults to the top frame)' },
+                ...EXECUTION_PROPERTIES
+            }
+        },
+        effect: 'execute',
+        handler: (args, context) => debugRestartFrame(args, context.signal)
+    },
+    {
+        name: 'debug_sendInput',
+        description: 'Type text into the program\'s stdin, e.g. to answer an input() or readline prompt of an interactive CLI program. PREREQUISITE: The program must run in a terminal - start it with debug_start and console: "integratedTerminal". A newline is added unless newline is false. The program reads the input once it is running; if it is paused, continue it afterwards.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                text: { type: 'string', description: 'Text to send to the program' },
+                newline: { type: 'boolean', description: 'Press Enter after the text (default: true)' },
+                wait: { type: 'boolean', description: 'Wait until the debugger stops (e.g. at a breakpoint reached after the input) before returning (default: false)' },
+                timeoutMs: TIMEOUT_PROPERTY,
+                sessionId: SESSION_ID_PROPERTY
+            },
+            required: ['text']
+        },
+        effect: 'execute',
+        handler: (args, context) => debugSendInput(args, context.signal)
+    },
+    {
+        name: 'debug_waitForStop',
+        description: 'Wait until the debugger stops (breakpoint hit, step finished, exception, pause) or the session terminates, then return why and where. Use after debug_continue with wait: false, or after triggering the code path yourself (e.g. sending a request to a server being debugged). Returns immediately if the debugger is already paused.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                timeoutMs: TIMEOUT_PROPERTY,
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'inspect',
+        handler: (args, context) => debugWaitForStop(args.timeoutMs, args.sessionId, context.signal)
     }
+];
+
+/**
+ * Run a debug command and, unless wait is false, wait for the stop it leads to
+ */
+async function executeAndWait(state: SessionState, step: ExecutionStep, options: WaitOptions, signal?: AbortSignal): Promise<{ waited: boolean; stopEvent: DebugEvent | null }> {
+    const wait = options.wait !== false;
+
+    // Subscribe before running the command so a fast stop can't be missed
+    const nextStop = wait
+        ? state.waitForStop(options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS, signal)
+        : null;
+    // The command may fail before the wait settles - don't leave a rejection unhandled
+    nextStop?.catch(() => undefined);
+
+    if (step.command && state.session === vscode.debug.activeDebugSession) {
+        await vscode.commands.executeCommand(step.command);
+    } else {
+        // Workbench commands act on the focused session - talk to other sessions' adapters directly
+        await state.session.customRequest(step.request, step.arguments ?? { threadId: await state.getTargetThreadId() });
+    }
+    const stopEvent = nextStop ? await nextStop : null;
+
+    await state.refreshPausedState();
+    return { waited: wait, stopEvent };
 }
 
 /**
- * Continue execution until next breakpoint
+ * Result fields describing how an execution tool's wait ended
  */
-async function debugContinue(): Promise<any> {
-    if (!debugState.isActive()) {
+function describeWait(outcome: { waited: boolean; stopEvent: DebugEvent | null }): Record<string, any> {
+    if (!outcome.waited) {
         return {
-            success: false,
-            error: 'No active debug session',
+            waited: false,
+            hint: 'Execution was not awaited. Use debug_waitForStop to wait for the next stop.'
         };
     }
+    return describeStopEvent(outcome.stopEvent);
+}
 
-    const session = debugState.getActiveSession();
-    if (!session) {
+function describeStopEvent(stopEvent: DebugEvent | null): Record<string, any> {
+    if (!stopEvent) {
         return {
-            success: false,
-            error: 'Debug session not found',
+            waited: true,
+            timedOut: true,
+            hint: 'The debugger did not stop before the timeout. Use debug_waitForStop to keep waiting, or debug_pause to interrupt.'
+        };
+    }
+    if (stopEvent.event === 'terminated') {
+        return {
+            waited: true,
+            terminated: true
+        };
+    }
+    return {
+        waited: true,
+        stopReason: stopEvent.body?.reason,
+        stopDescription: stopEvent.body?.description ?? stopEvent.body?.text,
+        threadId: stopEvent.body?.threadId,
+        // The stop happened in a child session (subprocess, worker)
+        ...(stopEvent.parentSessionId ? {
+            stoppedSessionId: stopEvent.sessionId,
+            stoppedSessionName: stopEvent.sessionName
+        } : {}),
+        // The pause was requested by an output watch (debug_breakOnOutput)
+        ...(stopEvent.body?.outputMatch ? {
+            outputMatch: stopEvent.body.outputMatch,
+            stack: stopEvent.body.stack
+        } : {})
+    };
+}
+
+/**
+ * Wait for the next stopped or terminated event
+ */
+async function debugWaitForStop(timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS, sessionId?: string, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(sessionId);
+    if (!state) {
+        return error;
+    }
+
+    if (state.isPaused) {
+        return {
+            success: true,
+            sessionId: state.sessionId,
+            alreadyPaused: true,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            currentFunction: state.currentFunction,
+            isPaused: true,
         };
     }
 
+    const startedAt = Date.now();
+    const stopEvent = await state.waitForStop(timeoutMs, signal, { includeQueued: true });
+    await state.refreshPausedState();
+
+    return {
+        success: true,
+        sessionId: state.sessionId,
+        waitedMs: Date.now() - startedAt,
+        ...describeStopEvent(stopEvent),
+        currentFile: stopEvent?.body?.file ?? state.currentFile,
+        currentLine: stopEvent?.body?.line ?? state.currentLine,
+        currentFunction: stopEvent?.body?.function ?? state.currentFunction,
+        isPaused: state.isPaused,
+    };
+}
+
+/**
+ * Continue execution until next breakpoint
+ */
+async function debugContinue(options: ExecutionArgs, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
+    }
+
     // CRITICAL: Check if debugger is paused before attempting continue
-    if (!debugState.isPaused) {
+    if (!state.isPaused) {
         return {
             success: false,
             error: 'Cannot continue: debugger is not paused. Wait for a breakpoint to be hit first.',
@@ -51,27 +265,23 @@ async function debugContinue(): Promise<any> {
     }
 
     try {
-        console.log('[DEBUG] Executing continue command');
+        logger.debug('Executing continue command');
         
         // Store pre-continue state
-        const wasPaused = debugState.isPaused;
+        const wasPaused = state.isPaused;
         
-        // Execute continue command
-        await vscode.commands.executeCommand('workbench.action.debug.continue');
-        
-        // Wait longer for debugger to potentially hit next breakpoint
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Refresh paused state
-        await debugState.refreshPausedState();
+        // Run the command and wait for the stop it leads to
+        const outcome = await executeAndWait(state, { command: 'workbench.action.debug.continue', request: 'continue' }, options, signal);
 
         return {
             success: true,
             action: 'continue',
+            sessionId: state.sessionId,
             wasPaused: wasPaused,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine,
-            isPaused: debugState.isPaused,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
         };
     } catch (error: any) {
         return {
@@ -84,24 +294,14 @@ async function debugContinue(): Promise<any> {
 /**
  * Step over the current line
  */
-async function debugStepOver(): Promise<any> {
-    if (!debugState.isActive()) {
-        return {
-            success: false,
-            error: 'No active debug session',
-        };
-    }
-
-    const session = debugState.getActiveSession();
-    if (!session) {
-        return {
-            success: false,
-            error: 'Debug session not found',
-        };
+async function debugStepOver(options: ExecutionArgs, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
     }
 
     // CRITICAL: Check if debugger is paused before attempting step
-    if (!debugState.isPaused) {
+    if (!state.isPaused) {
         return {
             success: false,
             error: 'Cannot step over: debugger is not paused. Wait for a breakpoint to be hit first.',
@@ -111,27 +311,23 @@ async function debugStepOver(): Promise<any> {
     }
 
     try {
-        console.log('[DEBUG] Executing step over command');
+        logger.debug('Executing step over command');
         
-        const prevLine = debugState.currentLine;
+        const prevLine = state.currentLine;
         
-        // Execute step over command
-        await vscode.commands.executeCommand('workbench.action.debug.stepOver');
-        
-        // Wait longer for step to complete
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Refresh paused state
-        await debugState.refreshPausedState();
+        // Run the command and wait for the stop it leads to
+        const outcome = await executeAndWait(state, { command: 'workbench.action.debug.stepOver', request: 'next' }, options, signal);
 
         return {
             success: true,
             action: 'stepOver',
+            sessionId: state.sessionId,
             previousLine: prevLine,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine,
-            currentFunction: debugState.currentFunction,
-            isPaused: debugState.isPaused,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            currentFunction: state.currentFunction,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
         };
     } catch (error: any) {
         return {
@@ -144,24 +340,14 @@ async function debugStepOver(): Promise<any> {
 /**
  * Step into function call
  */
-async function debugStepInto(): Promise<any> {
-    if (!debugState.isActive()) {
-        return {
-            success: false,
-            error: 'No active debug session',
-        };
-    }
-
-    const session = debugState.getActiveSession();
-    if (!session) {
-        return {
-            success: false,
-            error: 'Debug session not found',
-        };
+async function debugStepInto(options: ExecutionArgs, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
     }
 
     // CRITICAL: Check if debugger is paused before attempting step
-    if (!debugState.isPaused) {
+    if (!state.isPaused) {
         return {
             success: false,
             error: 'Cannot step into: debugger is not paused. Wait for a breakpoint to be hit first.',
@@ -171,29 +357,25 @@ async function debugStepInto(): Promise<any> {
     }
 
     try {
-        console.log('[DEBUG] Executing step into command');
+        logger.debug('Executing step into command');
         
-        const prevLine = debugState.currentLine;
-        const prevFile = debugState.currentFile;
+        const prevLine = state.currentLine;
+        const prevFile = state.currentFile;
         
-        // Execute step into command
-        await vscode.commands.executeCommand('workbench.action.debug.stepInto');
-        
-        // Wait longer for step to complete
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Refresh paused state
-        await debugState.refreshPausedState();
+        // Run the command and wait for the stop it leads to
+        const outcome = await executeAndWait(state, { command: 'workbench.action.debug.stepInto', request: 'stepIn' }, options, signal);
 
         return {
             success: true,
             action: 'stepInto',
+            sessionId: state.sessionId,
             previousFile: prevFile,
             previousLine: prevLine,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine,
-            currentFunction: debugState.currentFunction,
-            isPaused: debugState.isPaused,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            currentFunction: state.currentFunction,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
         };
     } catch (error: any) {
         return {
@@ -206,24 +388,14 @@ async function debugStepInto(): Promise<any> {
 /**
  * Step out of current function
  */
-async function debugStepOut(): Promise<any> {
-    if (!debugState.isActive()) {
-        return {
-            success: false,
-            error: 'No active debug session',
-        };
-    }
-
-    const session = debugState.getActiveSession();
-    if (!session) {
-        return {
-            success: false,
-            error: 'Debug session not found',
-        };
+async function debugStepOut(options: ExecutionArgs, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
     }
 
     // CRITICAL: Check if debugger is paused before attempting step
-    if (!debugState.isPaused) {
+    if (!state.isPaused) {
         return {
             success: false,
             error: 'Cannot step out: debugger is not paused. Wait for a breakpoint to be hit first.',
@@ -233,28 +405,24 @@ async function debugStepOut(): Promise<any> {
     }
 
     try {
-        console.log('[DEBUG] Executing step out command');
-        const prevLine = debugState.currentLine;
-        const prevFunction = debugState.currentFunction;
-        
-        // Execute step out command
-        await vscode.commands.executeCommand('workbench.action.debug.stepOut');
-        
-        // Wait longer for step to complete
-        await new Promise(resolve => setTimeout(resolve, 500));
+        logger.debug('Executing step out command');
+        const prevLine = state.currentLine;
+        const prevFunction = state.currentFunction;
         
-        // Refresh paused state
-        await debugState.refreshPausedState();
+        // Run the command and wait for the stop it leads to
+        const outcome = await executeAndWait(state, { command: 'workbench.action.debug.stepOut', request: 'stepOut' }, options, signal);
 
         return {
             success: true,
             action: 'stepOut',
+            sessionId: state.sessionId,
             previousFunction: prevFunction,
             previousLine: prevLine,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine,
-            currentFunction: debugState.currentFunction,
-            isPaused: debugState.isPaused,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            currentFunction: state.currentFunction,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
         };
     } catch (error: any) {
         return {
@@ -267,54 +435,186 @@ async function debugStepOut(): Promise<any> {
 /**
  * Pause execution
  */
-async function debugPause(): Promise<any> {
-    if (!debugState.isActive()) {
+async function debugPause(options: ExecutionArgs, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
+    }
+
+    if (state.isPaused) {
         return {
             success: false,
-            error: 'No active debug session',
+            error: 'Debug session is already paused',
+            isPaused: true,
+            hint: 'Use debug_continue, debug_stepOver, debug_stepInto, or debug_stepOut to resume execution.'
         };
     }
 
-    const session = debugState.getActiveSession();
-    if (!session) {
+    try {
+        logger.debug('Executing pause command');
+        
+        // Run the command and wait for the stop it leads to
+        const outcome = await executeAndWait(state, { command: 'workbench.action.debug.pause', request: 'pause' }, options, signal);
+
+        return {
+            success: true,
+            action: 'pause',
+            sessionId: state.sessionId,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
+        };
+    } catch (error: any) {
         return {
             success: false,
-            error: 'Debug session not found',
+            error: `Failed to pause: ${error.message}`,
         };
     }
+}
 
-    if (debugState.isPaused) {
+/**
+ * Restart a stack frame (DAP restartFrame)
+ */
+async function debugRestartFrame(options: ExecutionArgs & { frameId?: number }, signal?: AbortSignal): Promise<any> {
+    const { state, error } = resolveTargetSession(options.sessionId);
+    if (!state) {
+        return error;
+    }
+
+    if (!state.isPaused) {
         return {
             success: false,
-            error: 'Debug session is already paused',
-            isPaused: true,
-            hint: 'Use debug_continue, debug_stepOver, debug_stepInto, or debug_stepOut to resume execution.'
+            error: 'Cannot restart frame: debugger is not paused. Wait for a breakpoint to be hit first.',
+            isPaused: false,
+            hint: 'Set a breakpoint and trigger the code path, or use debug_pause to pause execution.'
+        };
+    }
+
+    if (!state.capabilities.supportsRestartFrame) {
+        return {
+            success: false,
+            error: `The ${state.type} debugger does not support restarting frames.`,
+            hint: 'Use debug_restart to run the program again from the start.'
+        };
+    }
+
+    const frameId = options.frameId ?? state.getPausedFrameId() ?? state.stackFrames[0]?.id;
+    if (frameId === undefined || frameId === null) {
+        return {
+            success: false,
+            error: 'No stack frame to restart. Call debug_getStackTrace to get a frameId.'
+        };
+    }
+    const frame = state.stackFrames.find((stackFrame: any) => stackFrame.id === frameId);
+    if (frame?.canRestart === false) {
+        return {
+            success: false,
+            error: `Frame "${frame.name}" can't be restarted.`,
+            hint: 'Pick another frame from debug_getStackTrace.'
         };
     }
 
     try {
-        console.log('[DEBUG] Executing pause command');
-        
-        // Execute pause command
-        await vscode.commands.executeCommand('workbench.action.debug.pause');
-        
-        // Wait longer for pause to complete
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Refresh paused state
-        await debugState.refreshPausedState();
+        logger.debug(`Restarting frame ${frameId}`);
+        const prevLine = state.currentLine;
+
+        const outcome = await executeAndWait(state, { request: 'restartFrame', arguments: { frameId } }, options, signal);
 
         return {
             success: true,
-            action: 'pause',
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine,
-            isPaused: debugState.isPaused,
+            action: 'restartFrame',
+            sessionId: state.sessionId,
+            frameId,
+            previousLine: prevLine,
+            currentFile: state.currentFile,
+            currentLine: state.currentLine,
+            currentFunction: state.currentFunction,
+            isPaused: state.isPaused,
+            ...describeWait(outcome),
         };
     } catch (error: any) {
         return {
             success: false,
-            error: `Failed to pause: ${error.message}`,
+            error: `Failed to restart frame: ${error.message}`,
+        };
+    }
+}
+
+/**
+ * Send text to the stdin of a program running in a terminal
+ */
+async function debugSendInput(args: {
+    text: string;
+    newline?: boolean;
+    wait?: boolean;
+    timeoutMs?: number;
+    sessionId?: string;
+}, signal?: AbortSignal): Promise<any> {
+    const { text, newline = true, wait = false, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS } = args;
+
+    const { state, error } = resolveTargetSession(args.sessionId);
+    if (!state) {
+        return error;
+    }
+
+    const terminal = await findSessionTerminal(state);
+    if (!terminal) {
+        return {
+            success: false,
+            error: 'The program does not run in a terminal, so its stdin can\'t be written to.',
+            hint: 'Restart it with debug_start and console: "integratedTerminal" to send input.'
         };
     }
+
+    try {
+        const wasPaused = state.isPaused;
+        // Subscribe before sending so a fast stop can't be missed
+        const nextStop = wait && !wasPaused ? state.waitForStop(timeoutMs, signal) : null;
+        nextStop?.catch(() => undefined);
+
+        terminal.sendText(text, newline);
+        logger.debug(`Sent ${text.length} characters to ${terminal.name}`);
+
+        const stopEvent = nextStop ? await nextStop : null;
+        if (nextStop) {
+            await state.refreshPausedState();
+        }
+
+        return {
+            success: true,
+            action: 'sendInput',
+            sessionId: state.sessionId,
+            terminal: terminal.name,
+            isPaused: state.isPaused,
+            ...(nextStop ? {
+                ...describeStopEvent(stopEvent),
+                currentFile: state.currentFile,
+                currentLine: state.currentLine
+            } : {}),
+            ...(wasPaused ? {
+                hint: 'The program is paused and will read the input when it resumes. Use debug_continue.'
+            } : {})
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: `Failed to send input: ${error.message}`,
+        };
+    }
+}
+
+/**
+ * The VS Code terminal a session's program was launched in, if any
+ */
+async function findSessionTerminal(state: SessionState): Promise<vscode.Terminal | undefined> {
+    if (!state.terminalProcessId) {
+        return undefined;
+    }
+    for (const terminal of vscode.window.terminals) {
+        if (await terminal.processId === state.terminalProcessId) {
+            return terminal;
+        }
+    }
+    return undefined;
 }
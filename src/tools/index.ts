@@ -0,0 +1,28 @@
+import { ToolRegistry } from './registry';
+import { sessionTools } from './session';
+import { breakpointTools } from './breakpoints';
+import { executionTools } from './execution';
+import { inspectionTools } from './inspection';
+import { outputTools } from './output';
+import { testingTools } from './testing';
+import { scriptTools } from './scripts';
+import { processTools } from './processes';
+import { controlTools } from './control';
+
+export type { ToolContext } from './registry';
+
+/**
+ * Every tool exposed by the MCP server
+ * Adding a tool = adding its definition to the module's tool list
+ */
+export const toolRegistry = new ToolRegistry([
+    ...sessionTools,
+    ...testingTools,
+    ...scriptTools,
+    ...processTools,
+    ...breakpointTools,
+    ...executionTools,
+    ...inspectionTools,
+    ...outputTools,
+    ...controlTools
+]);
@@ -1,20 +1,68 @@
 import * as vscode from 'vscode';
-import { debugState } from '../debug-state';
+import { ToolDefinition } from './registry';
+import { logger } from '../logger';
+import { resolveTargetSession, SESSION_ID_PROPERTY } from './session-target';
+
+/**
+ * Code inspection tools
+ */
+export const inspectionTools: ToolDefinition[] = [
+    {
+        name: 'debug_getStackTrace',
+        description: 'Get the current call stack with function names, file paths, and line numbers. PREREQUISITE: Debugger must be paused. Returns stack frames showing the execution path. WORKFLOW: Always call this BEFORE debug_getVariables to identify which frame you want to inspect. Returns frameId values needed for other inspection tools.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugGetStackTrace(args.sessionId)
+    },
+    {
+        name: 'debug_getVariables',
+        description: 'Get variables in the current scope or specified frame. PREREQUISITE: Debugger must be paused. WORKFLOW: Call debug_getStackTrace first to get available frameIds. Specify a frameId to inspect different stack levels. Default scope shows local variables; use scope filter for "global" or "static" if available.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                frameId: { type: 'number', description: 'Stack frame ID (optional, defaults to top frame)' },
+                scope: { type: 'string', description: 'Scope filter: "local", "global", etc. (optional)' },
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugGetVariables(args.frameId, args.scope, args.sessionId)
+    },
+    {
+        name: 'debug_evaluate',
+        description: 'Evaluate an expression in the current debug context (e.g., variable values, function results). PREREQUISITE: Debugger must be paused. WORKFLOW: Use this cleverly to discover extra context. CRITICAL: Only evaluate SAFE READ operations. If your expression might have side effects (call functions that modify state, access external APIs, etc.), you MUST ask the user for permission BEFORE evaluating.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                expression: { type: 'string', description: 'Expression to evaluate' },
+                frameId: { type: 'number', description: 'Stack frame ID (optional, defaults to top frame)' },
+                context: { type: 'string', description: 'Evaluation context: "watch", "repl", "hover" (optional)' },
+                sessionId: SESSION_ID_PROPERTY
+            },
+            required: ['expression']
+        },
+        effect: 'modify',
+        handler: (args) => debugEvaluate(args.expression, args.frameId, args.context, args.sessionId)
+    }
+];
 
 /**
  * Get stack trace from current debug session
  */
-export async function debugGetStackTrace(): Promise<any> {
+export async function debugGetStackTrace(sessionId?: string): Promise<any> {
     try {
-        const session = debugState.getActiveSession();
-        if (!session) {
-            return {
-                success: false,
-                error: 'No active debug session. Start debugging first with debug_start.'
-            };
+        const { state, error } = resolveTargetSession(sessionId);
+        if (!state) {
+            return error;
         }
+        const session = state.session;
 
-        if (!debugState.isPaused) {
+        if (!state.isPaused) {
             return {
                 success: false,
                 error: 'Debug session is not paused. Use debug_pause or hit a breakpoint first.'
@@ -22,8 +70,8 @@ export async function debugGetStackTrace(): Promise<any> {
         }
 
         // Use cached stack frames if available
-        if (debugState.stackFrames && debugState.stackFrames.length > 0) {
-            const frames = debugState.stackFrames.map((frame: any, index: number) => ({
+        if (state.stackFrames && state.stackFrames.length > 0) {
+            const frames = state.stackFrames.map((frame: any, index: number) => ({
                 frameId: frame.id,
                 index: index,
                 name: frame.name,
@@ -34,7 +82,7 @@ export async function debugGetStackTrace(): Promise<any> {
 
             return {
                 success: true,
-                sessionId: debugState.sessionId,
+                sessionId: state.sessionId,
                 stackFrames: frames,
                 frameCount: frames.length
             };
@@ -43,7 +91,7 @@ export async function debugGetStackTrace(): Promise<any> {
         // Fallback: fetch fresh stack trace via DAP
         try {
             // Use stored threadId if available
-            let threadId = debugState.getPausedThreadId();
+            let threadId = state.getPausedThreadId();
             
             if (!threadId) {
                 // Fallback to querying threads
@@ -57,7 +105,7 @@ export async function debugGetStackTrace(): Promise<any> {
                 threadId = threadsResponse.threads[0].id;
             }
             
-            console.log(`[DEBUG] Fetching stack trace for thread ${threadId}`);
+            logger.debug(`Fetching stack trace for thread ${threadId}`);
             const stackResponse = await session.customRequest('stackTrace', {
                 threadId: threadId,
                 startFrame: 0,
@@ -76,7 +124,7 @@ export async function debugGetStackTrace(): Promise<any> {
 
                 return {
                     success: true,
-                    sessionId: debugState.sessionId,
+                    sessionId: state.sessionId,
                     stackFrames: frames,
                     frameCount: frames.length
                 };
@@ -103,17 +151,15 @@ export async function debugGetStackTrace(): Promise<any> {
 /**
  * Get variables in current scope
  */
-export async function debugGetVariables(frameId?: number, scope?: string): Promise<any> {
+export async function debugGetVariables(frameId?: number, scope?: string, sessionId?: string): Promise<any> {
     try {
-        const session = debugState.getActiveSession();
-        if (!session) {
-            return {
-                success: false,
-                error: 'No active debug session. Start debugging first with debug_start.'
-            };
+        const { state, error } = resolveTargetSession(sessionId);
+        if (!state) {
+            return error;
         }
+        const session = state.session;
 
-        if (!debugState.isPaused) {
+        if (!state.isPaused) {
             return {
                 success: false,
                 error: 'Debug session is not paused. Use debug_pause or hit a breakpoint first.'
@@ -121,12 +167,12 @@ export async function debugGetVariables(frameId?: number, scope?: string): Promi
         }
 
         // Use stored threadId and frameId if available
-        let threadId = debugState.getPausedThreadId();
-        let targetFrameId = frameId !== undefined ? frameId : debugState.getPausedFrameId();
+        let threadId = state.getPausedThreadId();
+        let targetFrameId = frameId !== undefined ? frameId : state.getPausedFrameId();
         
         // Fallback: query threads and stack trace
         if (!threadId || !targetFrameId) {
-            console.log(`[DEBUG] No stored threadId/frameId, querying DAP`);
+            logger.debug(`No stored threadId/frameId, querying DAP`);
             const threadsResponse = await session.customRequest('threads');
             if (!threadsResponse || !threadsResponse.threads || threadsResponse.threads.length === 0) {
                 return {
@@ -152,7 +198,7 @@ export async function debugGetVariables(frameId?: number, scope?: string): Promi
             targetFrameId = stackResponse.stackFrames[0].id;
         }
         
-        console.log(`[DEBUG] Getting variables for frame ${targetFrameId}`);
+        logger.debug(`Getting variables for frame ${targetFrameId}`);
         
         // Get scopes for the frame
         const scopesResponse = await session.customRequest('scopes', {
@@ -196,7 +242,7 @@ export async function debugGetVariables(frameId?: number, scope?: string): Promi
 
         return {
             success: true,
-            sessionId: debugState.sessionId,
+            sessionId: state.sessionId,
             frameId: targetFrameId,
             variables: allVariables,
             variableCount: allVariables.length,
@@ -213,17 +259,15 @@ export async function debugGetVariables(frameId?: number, scope?: string): Promi
 /**
  * Evaluate expression in current debug context
  */
-export async function debugEvaluate(expression: string, frameId?: number, context?: string): Promise<any> {
+export async function debugEvaluate(expression: string, frameId?: number, context?: string, sessionId?: string): Promise<any> {
     try {
-        const session = debugState.getActiveSession();
-        if (!session) {
-            return {
-                success: false,
-                error: 'No active debug session. Start debugging first with debug_start.'
-            };
+        const { state, error } = resolveTargetSession(sessionId);
+        if (!state) {
+            return error;
         }
+        const session = state.session;
 
-        if (!debugState.isPaused) {
+        if (!state.isPaused) {
             return {
                 success: false,
                 error: 'Debug session is not paused. Use debug_pause or hit a breakpoint first.'
@@ -231,12 +275,12 @@ export async function debugEvaluate(expression: string, frameId?: number, contex
         }
 
         // Get frame ID - use stored value or provided value
-        let targetFrameId = frameId !== undefined ? frameId : debugState.getPausedFrameId();
+        let targetFrameId = frameId !== undefined ? frameId : state.getPausedFrameId();
         
         if (targetFrameId === undefined || targetFrameId === null) {
             // Fallback: query for frame ID
-            console.log(`[DEBUG] No stored frameId, querying DAP`);
-            const threadId = debugState.getPausedThreadId();
+            logger.debug(`No stored frameId, querying DAP`);
+            const threadId = state.getPausedThreadId();
             if (threadId) {
                 const stackResponse = await session.customRequest('stackTrace', {
                     threadId: threadId,
@@ -257,7 +301,7 @@ export async function debugEvaluate(expression: string, frameId?: number, contex
             };
         }
 
-        console.log(`[DEBUG] Evaluating "${expression}" in frame ${targetFrameId}`);
+        logger.debug(`Evaluating "${expression}" in frame ${targetFrameId}`);
 
         // Evaluate the expression
         const evaluateResponse = await session.customRequest('evaluate', {
@@ -269,7 +313,7 @@ export async function debugEvaluate(expression: string, frameId?: number, contex
         if (evaluateResponse) {
             return {
                 success: true,
-                sessionId: debugState.sessionId,
+                sessionId: state.sessionId,
                 expression: expression,
                 result: evaluateResponse.result,
                 type: evaluateResponse.type || 'unknown',
@@ -289,31 +333,3 @@ export async function debugEvaluate(expression: string, frameId?: number, contex
         };
     }
 }
-
-/**
- * Handle inspection tool calls
- */
-export async function handleInspectionTool(toolName: string, args: any): Promise<any> {
-    switch (toolName) {
-        case 'debug_getStackTrace':
-            return await debugGetStackTrace();
-
-        case 'debug_getVariables':
-            return await debugGetVariables(args.frameId, args.scope);
-
-        case 'debug_evaluate':
-            if (!args.expression) {
-                return {
-                    success: false,
-                    error: 'Missing required parameter: expression'
-                };
-            }
-            return await debugEvaluate(args.expression, args.frameId, args.context);
-
-        default:
-            return {
-                success: false,
-                error: `Unknown inspection tool: ${toolName}`
-            };
-    }
-}
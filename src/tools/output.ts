@@ -0,0 +1,223 @@
+import { debugState } from '../debug-state';
+import { OutputEntry } from '../output-buffer';
+import { outputWatches, OutputWatch } from '../output-watch';
+import { ToolDefinition } from './registry';
+import { resolveTargetSession, SESSION_ID_PROPERTY } from './session-target';
+
+const DEFAULT_OUTPUT_LIMIT = 200;
+
+/**
+ * Program output tools
+ */
+export const outputTools: ToolDefinition[] = [
+    {
+        name: 'debug_getOutput',
+        description: 'Get the program\'s output (stdout, stderr, console) captured by the debugger, with timestamps. Use "since" with the returned cursor to read only new output, e.g. after debug_continue, to correlate logs with where the debugger stopped. Filter by category or regex pattern to find errors quickly. NOTE: Output of programs started with console: "integratedTerminal" is not captured.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: SESSION_ID_PROPERTY,
+                since: { type: 'number', minimum: 0, description: 'Only return output after this cursor (the "cursor" of a previous call)' },
+                categories: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['stdout', 'stderr', 'console', 'important'] },
+                    description: 'Only return these output categories (optional)'
+                },
+                pattern: { type: 'string', description: 'Only return output matching this regular expression (optional)' },
+                ignoreCase: { type: 'boolean', description: 'Match the pattern case-insensitively (default: false)' },
+                includeChildren: { type: 'boolean', description: 'Include output of child sessions, e.g. the process npm runs a script in (default: true)' },
+                limit: { type: 'number', minimum: 1, maximum: 2000, description: `Maximum number of entries to return (default: ${DEFAULT_OUTPUT_LIMIT})` }
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugGetOutput(args)
+    },
+    {
+        name: 'debug_breakOnOutput',
+        description: 'Pause the program as soon as it prints output matching a regular expression, e.g. "ERROR: balance negative". Use this when you know a bug by the log line it prints but not where that line is in the code. The stop is reported by debug_continue/debug_waitForStop with "outputMatch" (the matched text) and the stack at the moment of the pause. The pause is requested when the output arrives, so the program may have moved a few lines past the print. The watch stays active until removed with debug_removeOutputBreak (or use once: true).',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                pattern: { type: 'string', description: 'Regular expression to watch for in stdout/stderr/console output' },
+                ignoreCase: { type: 'boolean', description: 'Match the pattern case-insensitively (default: false)' },
+                sessionId: {
+                    type: 'string',
+                    description: 'Only watch the output of this session and its child sessions (optional, defaults to every session, including ones started later)'
+                },
+                once: { type: 'boolean', description: 'Remove the watch after its first match (default: false)' }
+            },
+            required: ['pattern']
+        },
+        effect: 'modify',
+        handler: (args) => debugBreakOnOutput(args)
+    },
+    {
+        name: 'debug_listOutputBreaks',
+        description: 'List the output patterns the program will be paused on (set with debug_breakOnOutput), with how often each matched.',
+        inputSchema: { type: 'object', properties: {} },
+        effect: 'inspect',
+        handler: async () => ({
+            success: true,
+            outputBreaks: outputWatches.list().map(describeWatch)
+        })
+    },
+    {
+        name: 'debug_removeOutputBreak',
+        description: 'Stop pausing on an output pattern set with debug_breakOnOutput. Without watchId, removes all of them.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                watchId: { type: 'string', description: 'Id returned by debug_breakOnOutput (optional, defaults to all)' }
+            }
+        },
+        effect: 'modify',
+        handler: (args) => debugRemoveOutputBreak(args.watchId)
+    }
+];
+
+/**
+ * Read buffered program output of a session
+ */
+async function debugGetOutput(args: {
+    sessionId?: string;
+    since?: number;
+    categories?: string[];
+    pattern?: string;
+    ignoreCase?: boolean;
+    includeChildren?: boolean;
+    limit?: number;
+}): Promise<any> {
+    const { since, categories, includeChildren = true, limit = DEFAULT_OUTPUT_LIMIT } = args;
+
+    const { state, error } = resolveTargetSession(args.sessionId);
+    if (!state) {
+        return error;
+    }
+
+    let pattern: RegExp | undefined;
+    if (args.pattern !== undefined) {
+        const compiled = compilePattern(args.pattern, args.ignoreCase);
+        if (!compiled.regex) {
+            return compiled.error;
+        }
+        pattern = compiled.regex;
+    }
+
+    const sessions = includeChildren ? [state, ...debugState.getDescendants(state.sessionId)] : [state];
+    const matching = sessions
+        .flatMap(session => session.output.query({ since, categories, pattern }))
+        .sort((a, b) => a.seq - b.seq);
+
+    // Page forward from a cursor; without one, show the most recent output
+    const hasMore = matching.length > limit;
+    const entries = since !== undefined ? matching.slice(0, limit) : matching.slice(-limit);
+    const latestSeq = Math.max(since ?? 0, ...sessions.map(session => session.output.getLastSeq()));
+    const cursor = since !== undefined && hasMore ? entries[entries.length - 1].seq : latestSeq;
+
+    const consoleType = state.session.configuration.console;
+    return {
+        success: true,
+        sessionId: state.sessionId,
+        count: entries.length,
+        entries: entries.map(entry => formatEntry(entry, state.sessionId)),
+        cursor,
+        hasMore,
+        ...(since !== undefined && sessions.some(session => session.output.hasDroppedSince(since)) ? {
+            outputDropped: true,
+            hint: 'Some output after the cursor was discarded because the buffer is full.'
+        } : {}),
+        ...(entries.length === 0 && (consoleType === 'integratedTerminal' || consoleType === 'externalTerminal') ? {
+            hint: `This session runs in a terminal (console: "${consoleType}"), so its output is not captured. Restart it with console: "internalConsole".`
+        } : {}),
+    };
+}
+
+/**
+ * Pause sessions when their output matches a pattern
+ */
+async function debugBreakOnOutput(args: {
+    pattern: string;
+    ignoreCase?: boolean;
+    sessionId?: string;
+    once?: boolean;
+}): Promise<any> {
+    const { regex, error } = compilePattern(args.pattern, args.ignoreCase);
+    if (!regex) {
+        return error;
+    }
+
+    if (args.sessionId !== undefined && !debugState.getSession(args.sessionId)) {
+        return resolveTargetSession(args.sessionId).error;
+    }
+
+    const watch = outputWatches.add(regex, args.sessionId ?? null, args.once ?? false);
+    return {
+        success: true,
+        ...describeWatch(watch),
+        hint: debugState.isActive()
+            ? 'Use debug_waitForStop (or debug_continue when paused) to wait for the output to appear.'
+            : 'Start the program with debug_start; it will pause when the output appears.'
+    };
+}
+
+/**
+ * Remove one output watch, or all of them
+ */
+async function debugRemoveOutputBreak(watchId?: string): Promise<any> {
+    if (watchId === undefined) {
+        return {
+            success: true,
+            removed: outputWatches.clear()
+        };
+    }
+
+    if (!outputWatches.remove(watchId)) {
+        return {
+            success: false,
+            error: `Output break not found: ${watchId}`,
+            outputBreaks: outputWatches.list().map(describeWatch)
+        };
+    }
+    return {
+        success: true,
+        removed: 1
+    };
+}
+
+/**
+ * Compile a regex given by the client
+ */
+function compilePattern(pattern: string, ignoreCase?: boolean): { regex?: RegExp; error?: any } {
+    try {
+        return { regex: new RegExp(pattern, ignoreCase ? 'i' : '') };
+    } catch (regexError: any) {
+        return {
+            error: {
+                success: false,
+                error: `Invalid pattern: ${regexError.message}`
+            }
+        };
+    }
+}
+
+function describeWatch(watch: OutputWatch): Record<string, any> {
+    return {
+        watchId: watch.id,
+        pattern: watch.pattern.source,
+        ignoreCase: watch.pattern.ignoreCase,
+        sessionId: watch.sessionId,
+        once: watch.once,
+        hitCount: watch.hitCount
+    };
+}
+
+function formatEntry(entry: OutputEntry, targetSessionId: string): Record<string, any> {
+    return {
+        seq: entry.seq,
+        time: new Date(entry.timestamp).toISOString(),
+        category: entry.category,
+        output: entry.output,
+        // Only label output that came from a child session
+        ...(entry.sessionId !== targetSessionId ? { sessionId: entry.sessionId } : {})
+    };
+}
@@ -0,0 +1,57 @@
+import { DebuggableProcess, listDebuggableProcesses } from '../process-discovery';
+import { ToolDefinition } from './registry';
+
+/**
+ * Process discovery tools
+ */
+export const processTools: ToolDefinition[] = [
+    {
+        name: 'debug_listProcesses',
+        description: 'List local node and python processes the debugger can attach to, with the debug port each one listens on (node --inspect, python -m debugpy --listen) and whether it is open. WORKFLOW: Use this before debug_attach to find a running server; attach with its port, or with its processId when it was started without a debug port.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                runtime: { type: 'string', enum: ['node', 'python'], description: 'Only list processes of this runtime (optional)' },
+                debugPortOnly: { type: 'boolean', description: 'Only list processes with an open debug port (default: false)' }
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugListProcesses(args)
+    }
+];
+
+/**
+ * List attachable processes
+ */
+async function debugListProcesses(args: { runtime?: 'node' | 'python'; debugPortOnly?: boolean }): Promise<any> {
+    try {
+        const processes = (await listDebuggableProcesses()).filter(proc =>
+            (!args.runtime || proc.runtime === args.runtime) &&
+            (!args.debugPortOnly || proc.debugPortOpen)
+        );
+
+        return {
+            success: true,
+            count: processes.length,
+            processes: processes.map(proc => ({
+                ...proc,
+                attachWith: describeAttach(proc)
+            }))
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: error.message
+        };
+    }
+}
+
+/**
+ * debug_attach arguments for a process: its open debug port, else its process id
+ */
+export function describeAttach(proc: DebuggableProcess): Record<string, any> {
+    const type = proc.runtime === 'node' ? 'node' : 'debugpy';
+    return proc.debugPortOpen
+        ? { type, host: proc.debugHost, port: proc.debugPort }
+        : { type, processId: proc.pid };
+}
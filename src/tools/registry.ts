@@ -0,0 +1,91 @@
+import { JSONSchema, validateArguments, ValidationIssue } from './schema-validation';
+
+/**
+ * How a tool affects the debugger:
+ * - 'inspect': only reads state, allowed for every client at any time
+ * - 'modify': changes debugger state without moving execution (breakpoints, evaluate)
+ * - 'execute': starts, stops or moves execution; these calls are serialized
+ */
+export type ToolEffect = 'inspect' | 'modify' | 'execute';
+
+/**
+ * Per-call information about the MCP client making the call
+ */
+export interface ToolContext {
+    clientSessionId: string;
+    // Aborted when the client cancels the request (notifications/cancelled)
+    signal: AbortSignal;
+}
+
+/**
+ * A tool exposed over MCP: its public definition plus the function that runs it
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: JSONSchema;
+    effect: ToolEffect;
+    handler: (args: any, context: ToolContext) => Promise<any>;
+}
+
+/**
+ * Tool registry - single source of truth for tools/list, tools/call routing and /health
+ */
+export class ToolRegistry {
+    private tools: Map<string, ToolDefinition> = new Map();
+
+    constructor(definitions: ToolDefinition[] = []) {
+        for (const definition of definitions) {
+            this.register(definition);
+        }
+    }
+
+    /**
+     * Register a tool
+     */
+    register(definition: ToolDefinition): void {
+        if (this.tools.has(definition.name)) {
+            throw new Error(`Tool already registered: ${definition.name}`);
+        }
+        this.tools.set(definition.name, definition);
+    }
+
+    /**
+     * Get a tool by name
+     */
+    get(name: string): ToolDefinition | undefined {
+        return this.tools.get(name);
+    }
+
+    /**
+     * Get the public tool list for tools/list
+     */
+    list(): Array<{ name: string; description: string; inputSchema: JSONSchema; annotations: any }> {
+        return Array.from(this.tools.values()).map(({ name, description, inputSchema, effect }) => ({
+            name,
+            description,
+            inputSchema,
+            annotations: {
+                readOnlyHint: effect === 'inspect'
+            }
+        }));
+    }
+
+    /**
+     * Number of registered tools
+     */
+    get size(): number {
+        return this.tools.size;
+    }
+
+    /**
+     * Validate arguments against the tool's input schema
+     */
+    validate(name: string, args: any): ValidationIssue[] {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            return [];
+        }
+        return validateArguments(tool.inputSchema, args);
+    }
+}
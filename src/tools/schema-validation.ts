@@ -0,0 +1,112 @@
+/**
+ * Subset of JSON Schema used by tool input schemas
+ */
+export interface JSONSchema {
+    type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    items?: JSONSchema;
+    enum?: any[];
+    minimum?: number;
+    maximum?: number;
+    additionalProperties?: boolean | JSONSchema;
+}
+
+/**
+ * A single validation problem, e.g. { path: 'line', message: 'must be a number' }
+ */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Validate tool arguments against a JSON schema
+ * Returns an empty list when the arguments are valid
+ */
+export function validateArguments(schema: JSONSchema, args: any): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    validateValue(schema, args, '', issues);
+    return issues;
+}
+
+/**
+ * Recursively validate a value, collecting issues
+ */
+function validateValue(schema: JSONSchema, value: any, path: string, issues: ValidationIssue[]): void {
+    const label = path || 'arguments';
+
+    if (schema.type && !matchesType(schema.type, value)) {
+        issues.push({ path: label, message: `must be ${article(schema.type)} ${schema.type}, got ${describeType(value)}` });
+        return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path: label, message: `must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path: label, message: `must be >= ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path: label, message: `must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (schema.type === 'object') {
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) {
+                issues.push({ path: joinPath(path, key), message: 'is required' });
+            }
+        }
+
+        for (const [key, propValue] of Object.entries(value)) {
+            const propSchema = schema.properties?.[key];
+            if (propSchema) {
+                validateValue(propSchema, propValue, joinPath(path, key), issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: joinPath(path, key), message: 'is not a known parameter' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                validateValue(schema.additionalProperties, propValue, joinPath(path, key), issues);
+            }
+        }
+    }
+
+    if (schema.type === 'array' && schema.items) {
+        (value as any[]).forEach((item, index) => {
+            validateValue(schema.items!, item, `${label}[${index}]`, issues);
+        });
+    }
+}
+
+function matchesType(type: string, value: any): boolean {
+    switch (type) {
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && !isNaN(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function article(type: string): string {
+    return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
+
+function joinPath(base: string, key: string): string {
+    return base ? `${base}.${key}` : key;
+}
@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { debugState, DebugEvent } from '../debug-state';
+import { ToolDefinition } from './registry';
+import { JSONSchema } from './schema-validation';
+import { findStartedSession, getSessionIds } from './session-target';
+import { logger } from '../logger';
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+const DEFAULT_OUTPUT_WAIT_MS = 3000;
+const MAX_REPORTED_OUTPUT = 4000;
+
+// Lock files identifying the package manager, checked in order
+const LOCK_FILES: [string, PackageManager][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['package-lock.json', 'npm']
+];
+
+const PACKAGE_DIR_PROPERTY: JSONSchema = {
+    type: 'string',
+    description: 'Absolute path of the directory containing package.json (optional, defaults to the workspace folder)'
+};
+
+/**
+ * package.json script tools
+ */
+export const scriptTools: ToolDefinition[] = [
+    {
+        name: 'debug_listScripts',
+        description: 'List the scripts in package.json. WORKFLOW: Use this to find how a Node project is started before calling debug_startScript.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                packageDir: PACKAGE_DIR_PROPERTY
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugListScripts(args.packageDir)
+    },
+    {
+        name: 'debug_startScript',
+        description: 'Run a package.json script (e.g. "dev", "start") under the Node debugger, the way the project is normally started with npm/yarn/pnpm run. Source maps are enabled, so breakpoints in TypeScript sources work. Returns the script\'s output from the first seconds of the run. WORKFLOW: Prefer this over debug_start for TypeScript projects and services started through scripts. Call debug_listScripts first and set breakpoints before starting.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                script: { type: 'string', description: 'Name of the script in package.json' },
+                packageDir: PACKAGE_DIR_PROPERTY,
+                args: { type: 'array', items: { type: 'string' }, description: 'Extra arguments passed to the script (optional)' },
+                env: { type: 'object', additionalProperties: { type: 'string' }, description: 'Environment variables for the script (optional)' },
+                packageManager: { type: 'string', enum: ['npm', 'yarn', 'pnpm'], description: 'Package manager to run the script with (optional, detected from the lock file)' },
+                waitMs: {
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 600000,
+                    description: `How long to collect output before returning, in milliseconds; returns earlier if a breakpoint is hit or the script exits (default: ${DEFAULT_OUTPUT_WAIT_MS})`
+                }
+            },
+            required: ['script']
+        },
+        effect: 'execute',
+        handler: (args, context) => debugStartScript(args, context.signal)
+    }
+];
+
+/**
+ * List the scripts of a package.json
+ */
+async function debugListScripts(packageDirArg?: string): Promise<any> {
+    const { packageDir, scripts, error } = readScripts(packageDirArg);
+    if (!scripts) {
+        return error;
+    }
+
+    return {
+        success: true,
+        packageDir,
+        packageManager: detectPackageManager(packageDir!, getWorkspaceFolder(packageDirArg)?.uri.fsPath),
+        scripts
+    };
+}
+
+/**
+ * Run a package.json script under the debugger
+ */
+async function debugStartScript(args: {
+    script: string;
+    packageDir?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    packageManager?: PackageManager;
+    waitMs?: number;
+}, signal?: AbortSignal): Promise<any> {
+    const { script, env, waitMs = DEFAULT_OUTPUT_WAIT_MS } = args;
+
+    const workspaceFolder = getWorkspaceFolder(args.packageDir);
+    const { packageDir, scripts, error } = readScripts(args.packageDir);
+    if (!scripts || !packageDir) {
+        return error;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(scripts, script)) {
+        return {
+            success: false,
+            error: `Script "${script}" not found in ${path.join(packageDir, 'package.json')}`,
+            availableScripts: Object.keys(scripts)
+        };
+    }
+
+    const packageManager = args.packageManager ?? detectPackageManager(packageDir, workspaceFolder?.uri.fsPath);
+    const extraArgs = args.args ?? [];
+
+    const config: vscode.DebugConfiguration = {
+        type: 'node',
+        request: 'launch',
+        name: `${packageManager} run ${script}`,
+        runtimeExecutable: packageManager,
+        // npm only forwards arguments that come after "--"
+        runtimeArgs: ['run', script, ...(extraArgs.length > 0 && packageManager === 'npm' ? ['--'] : []), ...extraArgs],
+        cwd: packageDir,
+        // Output goes through the debug adapter so it can be reported back
+        console: 'internalConsole',
+        outputCapture: 'std',
+        sourceMaps: true,
+        outFiles: inferOutFiles(packageDir),
+        resolveSourceMapLocations: [`${packageDir}/**`, '!**/node_modules/**'],
+        skipFiles: ['<node_internals>/**'],
+        autoAttachChildProcesses: true,
+        ...(env ? { env } : {})
+    };
+
+    // Collect the output of every session the launch creates (npm runs the script in a child process)
+    const existingSessions = getSessionIds();
+    const output: DebugEvent[] = [];
+    const outputSubscription = debugState.onDidDebugEvent((event) => {
+        if (event.event === 'output' && !existingSessions.has(event.sessionId) && event.body?.category !== 'telemetry') {
+            output.push(event);
+        }
+    });
+
+    try {
+        const started = await vscode.debug.startDebugging(workspaceFolder, config);
+        if (!started) {
+            return {
+                success: false,
+                error: 'Failed to start debug session'
+            };
+        }
+
+        const state = findStartedSession(existingSessions);
+        const stopEvent = state ? await state.waitForStop(waitMs, signal, { includeQueued: true }) : null;
+        await state?.refreshPausedState();
+
+        return {
+            success: true,
+            script,
+            command: `${packageManager} ${config.runtimeArgs.join(' ')}`,
+            packageDir,
+            sessionId: state?.sessionId ?? null,
+            status: stopEvent?.event === 'terminated' ? 'exited' : 'started',
+            ...(stopEvent?.event === 'stopped' ? {
+                stopReason: stopEvent.body?.reason,
+                stoppedSessionId: stopEvent.sessionId,
+                currentFile: stopEvent.body?.file,
+                currentLine: stopEvent.body?.line,
+            } : {}),
+            isPaused: stopEvent?.event === 'stopped',
+            output: formatOutput(output)
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: `Error starting script: ${error.message}`
+        };
+    } finally {
+        outputSubscription.dispose();
+    }
+}
+
+/**
+ * Workspace folder of a package directory (the first folder when none is given)
+ */
+function getWorkspaceFolder(packageDir?: string): vscode.WorkspaceFolder | undefined {
+    return (packageDir ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(packageDir)) : undefined)
+        ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+/**
+ * Read the scripts of the package.json in packageDir (or the workspace folder)
+ */
+function readScripts(packageDirArg?: string): { packageDir?: string; scripts?: Record<string, string>; error?: any } {
+    const packageDir = packageDirArg ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!packageDir) {
+        return {
+            error: {
+                success: false,
+                error: 'No workspace folder open. Specify "packageDir".'
+            }
+        };
+    }
+
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+        return { packageDir, scripts: pkg.scripts ?? {} };
+    } catch (error: any) {
+        return {
+            packageDir,
+            error: {
+                success: false,
+                error: `Could not read package.json in ${packageDir}: ${error.message}`
+            }
+        };
+    }
+}
+
+/**
+ * Package manager of a project, from the nearest lock file up to the workspace folder
+ */
+function detectPackageManager(packageDir: string, stopDir: string | undefined): PackageManager {
+    let dir = packageDir;
+    while (true) {
+        for (const [lockFile, packageManager] of LOCK_FILES) {
+            if (fs.existsSync(path.join(dir, lockFile))) {
+                return packageManager;
+            }
+        }
+        const parent = path.dirname(dir);
+        if (dir === stopDir || parent === dir) {
+            return 'npm';
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Where the compiled JavaScript lives, from tsconfig.json's outDir when there is one
+ */
+function inferOutFiles(packageDir: string): string[] {
+    const exclude = '!**/node_modules/**';
+    try {
+        const tsconfigPath = path.join(packageDir, 'tsconfig.json');
+        if (fs.existsSync(tsconfigPath)) {
+            // tsconfig.json allows comments and trailing commas
+            const text = fs.readFileSync(tsconfigPath, 'utf-8')
+                .replace(/\/\*[\s\S]*?\*\/|^\s*\/\/.*$/gm, '')
+                .replace(/,(\s*[}\]])/g, '$1');
+            const outDir = JSON.parse(text).compilerOptions?.outDir;
+            if (outDir) {
+                return [`${path.resolve(packageDir, outDir)}/**/*.js`, exclude];
+            }
+        }
+    } catch (error) {
+        logger.debug(`Could not read outDir from tsconfig.json: ${error}`);
+    }
+    return [`${packageDir}/**/*.js`, exclude];
+}
+
+/**
+ * Output text of a run, trimmed to the most recent part
+ */
+function formatOutput(events: DebugEvent[]): string {
+    const text = events.map(event => event.body?.output ?? '').join('');
+    return text.length > MAX_REPORTED_OUTPUT
+        ? `...${text.slice(-MAX_REPORTED_OUTPUT)}`
+        : text;
+}
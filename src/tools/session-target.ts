@@ -0,0 +1,54 @@
+import { debugState, SessionState } from '../debug-state';
+import { JSONSchema } from './schema-validation';
+
+/**
+ * Optional sessionId argument shared by tools that act on a debug session
+ */
+export const SESSION_ID_PROPERTY: JSONSchema = {
+    type: 'string',
+    description: 'Debug session to act on, from debug_listSessions (optional, defaults to the active session)'
+};
+
+/**
+ * Find the session a tool call targets: the given sessionId, or the active session
+ */
+export function resolveTargetSession(sessionId?: string): { state?: SessionState; error?: any } {
+    const state = debugState.resolveSession(sessionId);
+    if (state) {
+        return { state };
+    }
+
+    if (sessionId === undefined) {
+        return {
+            error: {
+                success: false,
+                error: 'No active debug session. Start debugging first with debug_start.'
+            }
+        };
+    }
+
+    return {
+        error: {
+            success: false,
+            error: `Debug session not found: ${sessionId}`,
+            availableSessions: debugState.listSessions().map(s => ({ sessionId: s.sessionId, name: s.name })),
+            hint: 'Call debug_listSessions to see the running sessions.'
+        }
+    };
+}
+
+/**
+ * Ids of the sessions running right now
+ */
+export function getSessionIds(): Set<string> {
+    return new Set(debugState.listSessions().map(state => state.sessionId));
+}
+
+/**
+ * The session created by a startDebugging call, given the sessions that existed before it.
+ * Prefers the top-level session when the launch also spawned child sessions.
+ */
+export function findStartedSession(existingSessions: Set<string>): SessionState | undefined {
+    const started = debugState.listSessions().filter(state => !existingSessions.has(state.sessionId));
+    return started.find(state => !state.session.parentSession) ?? started[0];
+}
@@ -1,29 +1,188 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { debugState } from '../debug-state';
+import { debugState, SessionResult, SessionState } from '../debug-state';
+import { ToolDefinition } from './registry';
+import { findStartedSession, getSessionIds, resolveTargetSession, SESSION_ID_PROPERTY } from './session-target';
+import { describeAttach } from './processes';
+import { listDebuggableProcesses } from '../process-discovery';
+import { checkPathMappings, inferPathMappings, PathMapping } from '../path-mappings';
+import { logger } from '../logger';
 
 /**
- * Handle session-related tool calls
+ * Session management tools
  */
-export async function handleSessionTool(toolName: string, args: any): Promise<any> {
-    switch (toolName) {
-        case 'debug_start':
-            return await debugStart(args);
-        case 'debug_stop':
-            return await debugStop();
-        case 'debug_getStatus':
-            return await debugGetStatus();
-        case 'debug_listConfigs':
-            return await debugListConfigs();
-        case 'debug_startWithConfig':
-            return await debugStartWithConfig(args);
-        case 'debug_attach':
-            return await debugAttach(args);
-        default:
-            throw new Error(`Unknown session tool: ${toolName}`);
+export const sessionTools: ToolDefinition[] = [
+    {
+        name: 'debug_start',
+        description: 'Start a debug session for a file. WORKFLOW: Call debug_listConfigs first to check for existing launch.json configurations. Prefer debug_startWithConfig when available. Use this only when no suitable configuration exists. For TypeScript projects and services started with npm/yarn/pnpm scripts, use debug_startScript instead.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'Absolute path to the file to debug' },
+                type: { type: 'string', description: 'Debug type (e.g., "python", "node"). Auto-detected if not specified.' },
+                stopOnEntry: { type: 'boolean', description: 'Stop at the first line of the program' },
+                args: { type: 'array', items: { type: 'string' }, description: 'Command line arguments passed to the program (optional)' },
+                env: { type: 'object', additionalProperties: { type: 'string' }, description: 'Environment variables for the program, e.g. {"DEBUG": "1"} (optional)' },
+                envFile: { type: 'string', description: 'Absolute path to a .env file with environment variables (optional)' },
+                cwd: { type: 'string', description: 'Absolute path of the working directory (optional, defaults to the workspace folder)' },
+                python: { type: 'string', description: 'Python interpreter to run the program with, for python/debugpy (optional)' },
+                runtimeExecutable: { type: 'string', description: 'Runtime to launch the program with, e.g. a specific node binary, for node (optional)' },
+                runtimeArgs: { type: 'array', items: { type: 'string' }, description: 'Arguments passed to the runtime rather than the program, e.g. ["--inspect-brk"] for node or interpreter flags for python (optional)' },
+                console: {
+                    type: 'string',
+                    enum: ['internalConsole', 'integratedTerminal'],
+                    description: 'Where the program runs: "internalConsole" (default) captures its output for debug_getOutput; "integratedTerminal" gives it a terminal so debug_sendInput can type into it, but its output is not captured'
+                }
+            },
+            required: ['file']
+        },
+        effect: 'execute',
+        handler: (args) => debugStart(args)
+    },
+    {
+        name: 'debug_stop',
+        description: 'Stop the current debug session. CLEANUP: Remove all breakpoints with debug_listBreakpoints before stopping to ensure clean state.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'execute',
+        handler: (args) => debugStop(args.sessionId)
+    },
+    {
+        name: 'debug_restart',
+        description: 'Restart a debug session with the same configuration, e.g. after changing code. Breakpoints are kept. Uses the debugger\'s restart support when available, otherwise stops the session and launches it again - the session then gets a new sessionId, which is returned. Restarting a child session restarts the session that spawned it.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'execute',
+        handler: (args, context) => debugRestart(args.sessionId, context.signal)
+    },
+    {
+        name: 'debug_getStatus',
+        description: 'Get current debug session status (whether paused/running, current line, function, etc.).',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: SESSION_ID_PROPERTY
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugGetStatus(args.sessionId)
+    },
+    {
+        name: 'debug_getLastSessionResult',
+        description: 'Find out why a debug session ended: exit code, last stop location, the uncaught exception it stopped on (if any) and the end of its output. Use this when debug_getStatus reports no active session after the program crashed or finished.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                sessionId: { type: 'string', description: 'Ended session to report on (optional, defaults to the last one that ended)' }
+            }
+        },
+        effect: 'inspect',
+        handler: (args) => debugGetLastSessionResult(args.sessionId)
+    },
+    {
+        name: 'debug_listSessions',
+        description: 'List all running debug sessions (compound launches and child processes each have their own). Pass a sessionId from this list to other tools to act on a session other than the active one.',
+        inputSchema: { type: 'object', properties: {} },
+        effect: 'inspect',
+        handler: () => debugListSessions()
+    },
+    {
+        name: 'debug_listConfigs',
+        description: 'List all debug configurations from launch.json in the workspace. WORKFLOW: Use this to discover existing debug configurations before using debug_start or debug_attach. Prefer existing configs when available.',
+        inputSchema: { type: 'object', properties: {} },
+        effect: 'inspect',
+        handler: () => debugListConfigs()
+    },
+    {
+        name: 'debug_startWithConfig',
+        description: 'PREFERRED METHOD: Start debugging using an existing named configuration from launch.json. This is the recommended approach over debug_start or debug_attach. Always call debug_listConfigs first to see available configurations.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                configName: { type: 'string', description: 'Name of the debug configuration from launch.json' },
+                folder: { type: 'string', description: 'Workspace folder name (optional, uses first if not specified)' }
+            },
+            required: ['configName']
+        },
+        effect: 'execute',
+        handler: (args) => debugStartWithConfig(args)
+    },
+    {
+        name: 'debug_attach',
+        description: 'Attach to a running process (e.g., FastAPI with debugpy listening on a port, a node server started with --inspect). Attach by port, by processId (for processes started without a debug port; node is switched into debug mode, debugpy is injected into python), or give neither to attach to the only local process with an open debug port. Call debug_listProcesses to find processes. FALLBACK ONLY: Use this only when no suitable launch.json configuration exists.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                type: { type: 'string', description: 'Debugger type: debugpy, python, node, pwa-node (default: detected from the process, else debugpy)' },
+                host: { type: 'string', description: 'Host to connect to (default: localhost)' },
+                port: { type: 'number', description: 'Port number the debugger is listening on (optional)' },
+                processId: { type: 'number', description: 'Id of a local process to attach to, from debug_listProcesses (optional)' },
+                pathMappings: {
+                    type: 'array',
+                    description: 'Path mappings for remote/container debugging (optional). When omitted and the port belongs to a container, they are inferred from docker-compose.yml, .devcontainer/devcontainer.json or the Dockerfile; pass [] to attach without mappings.',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            localRoot: { type: 'string', description: 'Path in the workspace' },
+                            remoteRoot: { type: 'string', description: 'Path in the remote process/container' }
+                        },
+                        required: ['localRoot', 'remoteRoot']
+                    }
+                },
+                name: { type: 'string', description: 'Custom name for the debug session (optional)' }
+            }
+        },
+        effect: 'execute',
+        handler: (args) => debugAttach(args)
     }
+];
+
+/**
+ * Program settings debug_start accepts on top of the file to run
+ */
+interface LaunchOptions {
+    args?: string[];
+    env?: Record<string, string>;
+    envFile?: string;
+    cwd?: string;
+    python?: string;
+    runtimeExecutable?: string;
+    runtimeArgs?: string[];
 }
 
+/**
+ * The launch.json property each debug type uses for a launch option.
+ * Options missing for a type are not supported by its debugger and are reported back as ignored.
+ */
+const LAUNCH_OPTION_KEYS: Record<string, Partial<Record<keyof LaunchOptions, string>>> = {
+    python: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd', python: 'python', runtimeExecutable: 'python', runtimeArgs: 'pythonArgs' },
+    node: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd', runtimeExecutable: 'runtimeExecutable', runtimeArgs: 'runtimeArgs' },
+    go: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd' },
+    java: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd', runtimeExecutable: 'javaExec', runtimeArgs: 'vmArgs' },
+    cppdbg: { args: 'args', env: 'environment', envFile: 'envFile', cwd: 'cwd' },
+    coreclr: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd' },
+    lldb: { args: 'args', env: 'env', envFile: 'envFile', cwd: 'cwd' }
+};
+
+// How long a restarted program gets to stop at entry or a breakpoint before the restart is reported
+const RESTART_SETTLE_MS = 1000;
+// How long to wait for the old session to end before relaunching
+const STOP_TIMEOUT_MS = 5000;
+
+// Debug types sharing another type's launch properties
+const LAUNCH_OPTION_ALIASES: Record<string, string> = {
+    debugpy: 'python',
+    'pwa-node': 'node'
+};
+
 /**
  * Start a debug session
  */
@@ -31,16 +190,9 @@ async function debugStart(args: {
     file: string;
     type?: string;
     stopOnEntry?: boolean;
-}): Promise<any> {
-    const { file, type, stopOnEntry = false } = args;
-
-    // Check if session already active
-    if (debugState.isActive()) {
-        return {
-            success: false,
-            error: 'A debug session is already active. Stop it first with debug_stop.',
-        };
-    }
+    console?: 'internalConsole' | 'integratedTerminal';
+} & LaunchOptions): Promise<any> {
+    const { file, type, stopOnEntry = false, console: consoleType = 'internalConsole', ...launchOptions } = args;
 
     // Validate file exists
     try {
@@ -68,16 +220,47 @@ async function debugStart(args: {
         name: 'AI Debug Session',
         program: file,
         stopOnEntry: stopOnEntry,
-        console: 'integratedTerminal',
+        console: consoleType,
     };
 
+    // Node only reports output written to process.stdout/stderr when asked to
+    if (consoleType === 'internalConsole' && (debugType === 'node' || debugType === 'pwa-node')) {
+        config.outputCapture = 'std';
+    }
+
     // Add language-specific configurations
     if (debugType === 'python') {
         config.justMyCode = false; // Allow debugging into libraries
     }
 
+    // Validate paths before handing them to the debugger, which often fails silently
+    for (const [option, optionPath] of [['cwd', launchOptions.cwd], ['envFile', launchOptions.envFile]]) {
+        if (optionPath === undefined) {
+            continue;
+        }
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.file(optionPath));
+        } catch {
+            return {
+                success: false,
+                error: `${option} not found: ${optionPath}`,
+            };
+        }
+    }
+
+    const conflict = findConflictingLaunchOptions(debugType, launchOptions);
+    if (conflict) {
+        return {
+            success: false,
+            error: `${conflict.options.join(' and ')} both set "${conflict.key}" for the ${debugType} debugger. Pass only one of them.`,
+        };
+    }
+
+    const ignoredOptions = applyLaunchOptions(config, debugType, launchOptions);
+
     // Start debugging
     try {
+        const existingSessions = getSessionIds();
         const started = await vscode.debug.startDebugging(undefined, config);
         
         if (started) {
@@ -85,16 +268,21 @@ async function debugStart(args: {
             await new Promise(resolve => setTimeout(resolve, 1000));
             
             // Refresh paused state after starting
-            await debugState.refreshPausedState();
+            const state = findStartedSession(existingSessions);
+            await state?.refreshPausedState();
             
             return {
                 success: true,
-                sessionId: debugState.sessionId,
+                sessionId: state?.sessionId ?? null,
                 file: file,
                 type: debugType,
                 status: 'started',
-                isPaused: debugState.isPaused,
-                currentLine: debugState.currentLine,
+                isPaused: state?.isPaused ?? false,
+                currentLine: state?.currentLine ?? null,
+                ...(ignoredOptions.length > 0 ? {
+                    ignoredOptions,
+                    warning: `The ${debugType} debugger does not support: ${ignoredOptions.join(', ')}. Use debug_startWithConfig with a launch.json configuration instead.`
+                } : {}),
             };
         } else {
             return {
@@ -111,70 +299,328 @@ async function debugStart(args: {
 }
 
 /**
- * Stop the current debug session
+ * Stop a debug session (the active one unless a sessionId is given)
  */
-async function debugStop(): Promise<any> {
-    if (!debugState.isActive()) {
+async function debugStop(sessionId?: string): Promise<any> {
+    const { state, error } = resolveTargetSession(sessionId);
+    if (!state) {
+        return error;
+    }
+
+    try {
+        await vscode.debug.stopDebugging(state.session);
+        
+        // Wait for session to clean up
+        await new Promise(resolve => setTimeout(resolve, 300));
+        
+        return {
+            success: true,
+            sessionId: state.sessionId,
+            status: 'stopped',
+        };
+    } catch (error: any) {
         return {
             success: false,
-            error: 'No active debug session',
+            error: `Error stopping debug session: ${error.message}`,
         };
     }
+}
+
+/**
+ * Restart a debug session: DAP restart when supported, else stop and launch again
+ */
+async function debugRestart(sessionId: string | undefined, signal: AbortSignal): Promise<any> {
+    const { state: target, error } = resolveTargetSession(sessionId);
+    if (!target) {
+        return error;
+    }
+
+    // Child sessions are started by their parent - restart the top-level session
+    const state = debugState.getAncestors(target.sessionId).pop() ?? target;
+    const session = state.session;
+
+    try {
+        if (state.capabilities.supportsRestartRequest) {
+            // The stop queue is cleared first, so a stop arriving before the restart response is kept for waitForStop
+            state.handleRestart();
+            await session.customRequest('restart', { arguments: session.configuration });
+            await state.waitForStop(RESTART_SETTLE_MS, signal, { includeQueued: true });
+            await state.refreshPausedState();
 
-    const session = debugState.getActiveSession();
-    if (session) {
-        try {
-            await vscode.debug.stopDebugging(session);
-            
-            // Wait for session to clean up
-            await new Promise(resolve => setTimeout(resolve, 300));
-            
             return {
                 success: true,
-                status: 'stopped',
+                sessionId: state.sessionId,
+                name: state.name,
+                status: 'restarted',
+                method: 'restartRequest',
+                isPaused: state.isPaused,
+                currentFile: state.currentFile,
+                currentLine: state.currentLine,
             };
-        } catch (error: any) {
+        }
+
+        // Relaunch with the same configuration; breakpoints belong to VS Code and carry over
+        const config = session.configuration;
+        const ended = waitForSessionEnd(session, STOP_TIMEOUT_MS);
+        await vscode.debug.stopDebugging(session);
+        await ended;
+
+        const existingSessions = getSessionIds();
+        const started = await vscode.debug.startDebugging(session.workspaceFolder, config);
+        if (!started) {
             return {
                 success: false,
-                error: `Error stopping debug session: ${error.message}`,
+                error: 'The session was stopped but could not be started again',
+                previousSessionId: state.sessionId,
+                hint: 'Start it again with debug_start or debug_startWithConfig.'
             };
         }
+
+        const restarted = findStartedSession(existingSessions);
+        await restarted?.waitForStop(RESTART_SETTLE_MS, signal, { includeQueued: true });
+        await restarted?.refreshPausedState();
+
+        return {
+            success: true,
+            sessionId: restarted?.sessionId ?? null,
+            previousSessionId: state.sessionId,
+            name: config.name,
+            status: 'restarted',
+            method: 'relaunch',
+            isPaused: restarted?.isPaused ?? false,
+            currentFile: restarted?.currentFile ?? null,
+            currentLine: restarted?.currentLine ?? null,
+            hint: 'The restarted session has a new sessionId.'
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: `Error restarting debug session: ${error.message}`,
+        };
     }
+}
 
-    return {
-        success: false,
-        error: 'Debug session not found',
-    };
+/**
+ * Resolves once a session has terminated, or after the timeout
+ */
+function waitForSessionEnd(session: vscode.DebugSession, timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            subscription.dispose();
+            resolve();
+        };
+        const timer = setTimeout(done, timeoutMs);
+        const subscription = vscode.debug.onDidTerminateDebugSession((ended) => {
+            if (ended.id === session.id) {
+                done();
+            }
+        });
+    });
 }
 
 /**
- * Get current debug session status
+ * Get debug session status (the active session unless a sessionId is given)
  */
-async function debugGetStatus(): Promise<any> {
-    if (!debugState.isActive()) {
+export async function debugGetStatus(sessionId?: string): Promise<any> {
+    if (sessionId === undefined && !debugState.isActive()) {
+        const lastResult = debugState.getLastSessionResult();
         return {
             active: false,
             status: 'No active debug session',
+            ...(lastResult ? {
+                lastSession: {
+                    sessionId: lastResult.sessionId,
+                    name: lastResult.name,
+                    outcome: describeOutcome(lastResult),
+                    exitCode: lastResult.exitCode,
+                    endedAt: new Date(lastResult.endedAt).toISOString()
+                },
+                hint: 'Call debug_getLastSessionResult for the exit code, exception and final output of the last run.'
+            } : {}),
         };
     }
 
+    const { state, error } = resolveTargetSession(sessionId);
+    if (!state) {
+        return error;
+    }
+
     // Refresh the paused state before returning status
-    await debugState.refreshPausedState();
+    await state.refreshPausedState();
 
-    const session = debugState.getActiveSession();
-    
     return {
         active: true,
-        sessionId: debugState.sessionId,
-        file: debugState.currentFile,
-        line: debugState.currentLine,
-        function: debugState.currentFunction,
-        paused: debugState.isPaused,
-        type: session?.type,
-        name: session?.name,
+        sessionId: state.sessionId,
+        file: state.currentFile,
+        line: state.currentLine,
+        function: state.currentFunction,
+        paused: state.isPaused,
+        type: state.type,
+        name: state.name,
+        sessionCount: debugState.listSessions().length,
+        ...describeSessionTree(state),
+    };
+}
+
+/**
+ * Parent/child relationships of a session, and which child stopped while the session itself runs
+ */
+function describeSessionTree(state: SessionState): Record<string, any> {
+    const describeChild = (child: SessionState) => ({
+        sessionId: child.sessionId,
+        name: child.name,
+        parentSessionId: child.parentSessionId,
+        paused: child.isPaused,
+        file: child.currentFile,
+        line: child.currentLine,
+        function: child.currentFunction
+    });
+
+    const descendants = debugState.getDescendants(state.sessionId);
+    const stoppedChildren = descendants.filter(child => child.isPaused);
+
+    return {
+        parentSessionId: state.parentSessionId,
+        childSessions: debugState.getChildSessions(state.sessionId).map(describeChild),
+        ...(!state.isPaused && stoppedChildren.length > 0 ? {
+            stoppedChildSessions: stoppedChildren.map(describeChild),
+            hint: 'A child process is paused. Pass its sessionId to inspection and execution tools.'
+        } : {}),
     };
 }
 
+/**
+ * Report how an ended debug session finished
+ */
+async function debugGetLastSessionResult(sessionId?: string): Promise<any> {
+    const result = debugState.getLastSessionResult(sessionId);
+    if (!result) {
+        return {
+            success: false,
+            error: sessionId !== undefined
+                ? `No ended debug session with id ${sessionId}`
+                : 'No debug session has ended yet',
+            ...(sessionId !== undefined && debugState.getSession(sessionId) ? { hint: 'This session is still running. Use debug_getStatus.' } : {})
+        };
+    }
+
+    const children = debugState.getChildSessionResults(result.sessionId);
+    return {
+        success: true,
+        ...describeResult(result),
+        ...(children.length > 0 ? { childSessions: children.map(describeResult) } : {}),
+    };
+}
+
+function describeResult(result: SessionResult): Record<string, any> {
+    return {
+        sessionId: result.sessionId,
+        name: result.name,
+        type: result.type,
+        parentSessionId: result.parentSessionId,
+        outcome: describeOutcome(result),
+        exitCode: result.exitCode,
+        terminatedEvent: result.terminatedEvent !== null,
+        ...(result.terminatedEvent?.restart !== undefined ? { restartRequested: true } : {}),
+        startedAt: new Date(result.startedAt).toISOString(),
+        endedAt: new Date(result.endedAt).toISOString(),
+        durationMs: result.endedAt - result.startedAt,
+        lastStop: result.lastStop ? {
+            ...result.lastStop,
+            timestamp: new Date(result.lastStop.timestamp).toISOString()
+        } : null,
+        exception: result.exception,
+        outputTail: result.outputTail
+    };
+}
+
+/**
+ * One-word summary of how a session ended
+ */
+function describeOutcome(result: SessionResult): string {
+    if (result.exception && result.lastStop?.reason === 'exception') {
+        return 'exception';
+    }
+    if (result.exitCode === null) {
+        // Stopped from the debugger, detached, or the adapter didn't report an exit code
+        return 'terminated';
+    }
+    return result.exitCode === 0 ? 'exited' : 'failed';
+}
+
+/**
+ * List all running debug sessions
+ */
+async function debugListSessions(): Promise<any> {
+    const current = debugState.getCurrentSession();
+    const sessions = debugState.listSessions().map(state => ({
+        ...state.describe(),
+        active: state === current
+    }));
+
+    return {
+        success: true,
+        count: sessions.length,
+        sessions,
+    };
+}
+
+/**
+ * Launch options that set the same launch.json property, e.g. python and runtimeExecutable
+ * for python - one would silently overwrite the other
+ */
+function findConflictingLaunchOptions(debugType: string, options: LaunchOptions): { options: string[]; key: string } | null {
+    const keys = LAUNCH_OPTION_KEYS[LAUNCH_OPTION_ALIASES[debugType] ?? debugType];
+    if (!keys) {
+        return null;
+    }
+
+    const optionsByKey = new Map<string, string[]>();
+    for (const [option, value] of Object.entries(options) as [keyof LaunchOptions, any][]) {
+        const key = keys[option];
+        if (value !== undefined && key) {
+            optionsByKey.set(key, [...(optionsByKey.get(key) ?? []), option]);
+        }
+    }
+
+    for (const [key, sharing] of optionsByKey) {
+        if (sharing.length > 1) {
+            return { options: sharing, key };
+        }
+    }
+    return null;
+}
+
+/**
+ * Copy launch options into a debug configuration under the names the debug type expects
+ * Returns the options the debug type has no equivalent for
+ */
+function applyLaunchOptions(config: vscode.DebugConfiguration, debugType: string, options: LaunchOptions): string[] {
+    const keys = LAUNCH_OPTION_KEYS[LAUNCH_OPTION_ALIASES[debugType] ?? debugType];
+    const ignored: string[] = [];
+
+    for (const [option, value] of Object.entries(options) as [keyof LaunchOptions, any][]) {
+        if (value === undefined) {
+            continue;
+        }
+
+        // Unknown debug types get the options under their usual names
+        const key = keys ? keys[option] : option;
+        if (!key) {
+            ignored.push(option);
+            continue;
+        }
+
+        // cppdbg takes the environment as a list of name/value pairs
+        config[key] = key === 'environment'
+            ? Object.entries(value).map(([name, envValue]) => ({ name, value: envValue }))
+            : value;
+    }
+
+    return ignored;
+}
+
 /**
  * Auto-detect debug type from file extension
  */
@@ -252,14 +698,6 @@ async function debugStartWithConfig(args: {
     try {
         const { configName, folder } = args;
 
-        // Check if session already active
-        if (debugState.isActive()) {
-            return {
-                success: false,
-                error: 'A debug session is already active. Stop it first with debug_stop.'
-            };
-        }
-
         // Find the workspace folder
         let workspaceFolder: vscode.WorkspaceFolder | undefined;
         
@@ -293,6 +731,7 @@ async function debugStartWithConfig(args: {
         }
 
         // Start debugging with the configuration
+        const existingSessions = getSessionIds();
         const started = await vscode.debug.startDebugging(workspaceFolder, config);
 
         if (!started) {
@@ -306,7 +745,8 @@ async function debugStartWithConfig(args: {
         await new Promise(resolve => setTimeout(resolve, 1000));
 
         // Refresh state to get isPaused status
-        await debugState.refreshPausedState();
+        const state = findStartedSession(existingSessions);
+        await state?.refreshPausedState();
 
         return {
             success: true,
@@ -314,10 +754,10 @@ async function debugStartWithConfig(args: {
             configName: configName,
             configType: config.type,
             configRequest: config.request,
-            sessionId: debugState.sessionId,
-            isPaused: debugState.isPaused,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine
+            sessionId: state?.sessionId ?? null,
+            isPaused: state?.isPaused ?? false,
+            currentFile: state?.currentFile ?? null,
+            currentLine: state?.currentLine ?? null
         };
     } catch (error: any) {
         return {
@@ -333,29 +773,35 @@ async function debugStartWithConfig(args: {
 async function debugAttach(args: {
     type?: string;
     host?: string;
-    port: number;
-    pathMappings?: any;
+    port?: number;
+    processId?: number;
+    pathMappings?: PathMapping[];
     name?: string;
 }): Promise<any> {
     try {
-        const { type = 'debugpy', host = 'localhost', port, pathMappings, name } = args;
+        const { pathMappings, name } = args;
 
-        // Check if session already active
-        if (debugState.isActive()) {
-            return {
-                success: false,
-                error: 'A debug session is already active. Stop it first with debug_stop.'
-            };
+        const { target, error } = await resolveAttachTarget(args);
+        if (!target) {
+            return error;
         }
+        const { type, host, port, processId } = target;
 
         const debugConfig: vscode.DebugConfiguration = {
             type,
             request: 'attach',
-            name: name || `Attach to ${host}:${port}`
+            name: name || (processId !== undefined ? `Attach to process ${processId}` : `Attach to ${host}:${port}`)
         };
 
-        // For debugpy (Python), use specific syntax
-        if (type === 'debugpy' || type === 'python') {
+        const isPython = type === 'debugpy' || type === 'python';
+        if (processId !== undefined) {
+            // js-debug takes the process id as a string, debugpy as a number
+            debugConfig.processId = isPython ? processId : String(processId);
+            if (isPython) {
+                debugConfig.justMyCode = false;
+            }
+        } else if (isPython) {
+            // For debugpy (Python), use specific syntax
             debugConfig.host = host;
             debugConfig.port = port;
             debugConfig.justMyCode = false; // Allow debugging into libraries
@@ -371,18 +817,35 @@ async function debugAttach(args: {
             };
         }
 
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+        // Without explicit mappings, work out where the code lives from the container setup
+        const inferred = pathMappings === undefined && processId === undefined && workspaceFolder
+            ? inferPathMappings(workspaceFolder.uri.fsPath, port, await isHostProcessPort(host, port))
+            : null;
+        const mappings = pathMappings ?? inferred?.pathMappings;
+
         // Add path mappings for remote/container debugging
-        if (pathMappings) {
-            debugConfig.pathMappings = pathMappings;
+        if (mappings && mappings.length > 0) {
+            if (type === 'node' || type === 'pwa-node') {
+                // js-debug takes a single pair - use the broadest mapping
+                const broadest = mappings.reduce((a, b) => (b.localRoot.length < a.localRoot.length ? b : a));
+                debugConfig.localRoot = broadest.localRoot;
+                debugConfig.remoteRoot = broadest.remoteRoot;
+            } else {
+                debugConfig.pathMappings = mappings;
+            }
         }
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const existingSessions = getSessionIds();
         const started = await vscode.debug.startDebugging(workspaceFolder, debugConfig);
 
         if (!started) {
             return {
                 success: false,
-                error: 'Failed to attach to process. Make sure the debugger is listening on the specified port.'
+                error: processId !== undefined
+                    ? `Failed to attach to process ${processId}. Make sure it is still running and you have permission to debug it.`
+                    : 'Failed to attach to process. Make sure the debugger is listening on the specified port.'
             };
         }
 
@@ -390,18 +853,34 @@ async function debugAttach(args: {
         await new Promise(resolve => setTimeout(resolve, 1000));
 
         // Refresh state
-        await debugState.refreshPausedState();
+        const state = findStartedSession(existingSessions);
+        await state?.refreshPausedState();
+
+        // Wrong mappings show up as unverified breakpoints and sources missing from the workspace
+        const mappingCheck = state && processId === undefined ? await checkPathMappings(state, mappings ?? []) : null;
 
         return {
             success: true,
-            message: `Attached to ${type} debugger at ${host}:${port}`,
+            message: processId !== undefined
+                ? `Attached to ${type} process ${processId}`
+                : `Attached to ${type} debugger at ${host}:${port}`,
             type: type,
-            host: host,
-            port: port,
-            sessionId: debugState.sessionId,
-            isPaused: debugState.isPaused,
-            currentFile: debugState.currentFile,
-            currentLine: debugState.currentLine
+            ...(processId !== undefined ? { processId } : { host, port }),
+            ...(target.autoSelected ? { autoSelected: true } : {}),
+            sessionId: state?.sessionId ?? null,
+            isPaused: state?.isPaused ?? false,
+            currentFile: state?.currentFile ?? null,
+            currentLine: state?.currentLine ?? null,
+            ...(inferred ? {
+                inferredPathMappings: inferred.pathMappings,
+                pathMappingsSource: inferred.source
+            } : {}),
+            ...(mappingCheck ? {
+                ...mappingCheck,
+                hint: mappingCheck.suggestedPathMappings.length > 0
+                    ? 'Stop this session and attach again with one of suggestedPathMappings as pathMappings.'
+                    : 'Check where the code lives inside the container and attach again with explicit pathMappings.'
+            } : {})
         };
     } catch (error: any) {
         return {
@@ -410,3 +889,72 @@ async function debugAttach(args: {
         };
     }
 }
+
+/**
+ * Whether a process running on this machine, outside any container, listens on the debug port
+ */
+async function isHostProcessPort(host: string, port: number | undefined): Promise<boolean> {
+    if (port === undefined || !['localhost', '127.0.0.1', '::1', '0.0.0.0'].includes(host)) {
+        return false;
+    }
+    try {
+        return (await listDebuggableProcesses()).some(proc => proc.debugPort === port && !proc.inContainer);
+    } catch (error) {
+        // Can't tell - assume it is local, so mappings only come from a compose service publishing the port
+        logger.debug(`Could not list processes: ${error}`);
+        return true;
+    }
+}
+
+/**
+ * What debug_attach connects to: the given port or process, or the only local process with an open debug port
+ */
+async function resolveAttachTarget(args: { type?: string; host?: string; port?: number; processId?: number }): Promise<{
+    target?: { type: string; host: string; port?: number; processId?: number; autoSelected?: boolean };
+    error?: any;
+}> {
+    const { host = 'localhost', port, processId } = args;
+
+    if (port !== undefined) {
+        return { target: { type: args.type ?? 'debugpy', host, port } };
+    }
+
+    const processes = await listDebuggableProcesses();
+
+    if (processId !== undefined) {
+        const proc = processes.find(candidate => candidate.pid === processId);
+        if (!proc && !args.type) {
+            return {
+                error: {
+                    success: false,
+                    error: `No node or python process with id ${processId} found`,
+                    hint: 'Call debug_listProcesses to see the processes you can attach to, or pass "type".'
+                }
+            };
+        }
+        return { target: { type: args.type ?? describeAttach(proc!).type, host, processId } };
+    }
+
+    // Neither port nor process given: pick the only process that listens for a debugger
+    const wantedRuntime = args.type === undefined ? undefined
+        : args.type === 'node' || args.type === 'pwa-node' ? 'node' : 'python';
+    const candidates = processes.filter(proc => proc.debugPortOpen && (!wantedRuntime || proc.runtime === wantedRuntime));
+
+    if (candidates.length !== 1) {
+        return {
+            error: {
+                success: false,
+                error: candidates.length === 0
+                    ? 'No local process with an open debug port found. Specify "port" or "processId".'
+                    : `${candidates.length} processes have an open debug port. Specify "port" or "processId".`,
+                ...(candidates.length > 0 ? {
+                    candidates: candidates.map(proc => ({ pid: proc.pid, command: proc.command, ...describeAttach(proc) }))
+                } : {}),
+                hint: 'Call debug_listProcesses to see the processes you can attach to.'
+            }
+        };
+    }
+
+    const attach = describeAttach(candidates[0]);
+    return { target: { type: args.type ?? attach.type, host: attach.host, port: attach.port, autoSelected: true } };
+}
@@ -0,0 +1,432 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolDefinition } from './registry';
+import { findStartedSession, getSessionIds } from './session-target';
+import { logger } from '../logger';
+
+type TestFramework = 'pytest' | 'jest' | 'vitest' | 'mocha' | 'go';
+
+const TEST_FRAMEWORKS: TestFramework[] = ['pytest', 'jest', 'vitest', 'mocha', 'go'];
+
+const DEFAULT_TEST_TIMEOUT_MS = 30000;
+
+// Config files that identify a JavaScript test framework, checked in the project root
+const JS_FRAMEWORK_MARKERS: Record<'jest' | 'vitest' | 'mocha', string[]> = {
+    vitest: ['vitest.config.ts', 'vitest.config.js', 'vitest.config.mts', 'vitest.config.mjs', 'vitest.workspace.ts'],
+    jest: ['jest.config.js', 'jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'],
+    mocha: ['.mocharc.js', '.mocharc.cjs', '.mocharc.json', '.mocharc.yml', '.mocharc.yaml', '.mocharc.jsonc']
+};
+
+// Files showing a Python project uses pytest; the ones with a pattern only when their content matches
+const PYTEST_MARKERS: { file: string; pattern?: RegExp }[] = [
+    { file: 'pytest.ini' },
+    { file: 'conftest.py' },
+    { file: 'pyproject.toml', pattern: /pytest/ },
+    { file: 'setup.cfg', pattern: /^\[tool:pytest\]|pytest/m },
+    { file: 'tox.ini', pattern: /^\[pytest\]|pytest/m },
+    { file: 'requirements.txt', pattern: /^pytest\b/m },
+    { file: 'requirements-dev.txt', pattern: /^pytest\b/m }
+];
+
+// Entry script of each JavaScript test runner inside node_modules
+const JS_RUNNER_PROGRAMS: Record<'jest' | 'vitest' | 'mocha', string[]> = {
+    jest: ['jest/bin/jest.js'],
+    vitest: ['vitest/vitest.mjs'],
+    mocha: ['mocha/bin/mocha.js', 'mocha/bin/_mocha']
+};
+
+/**
+ * Test debugging tools
+ */
+export const testingTools: ToolDefinition[] = [
+    {
+        name: 'debug_startTest',
+        description: 'Debug a single test. Detects the test framework from the workspace (pytest, jest, vitest, mocha, go test) and builds the launch configuration. By default the session pauses at the start of the test; with stopAtTest: false it runs until your first breakpoint. WORKFLOW: Prefer this over debug_start when investigating a failing test. Set breakpoints in the code under test first if you plan to run past the test entry.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'Absolute path to the test file' },
+                testName: { type: 'string', description: 'Test to run: a test name (e.g. "test_login", "logs in the user", "TestLogin") or a pytest node id (e.g. "TestAuth::test_login"). Runs every test in the file if omitted.' },
+                framework: { type: 'string', enum: TEST_FRAMEWORKS, description: 'Test framework (optional, auto-detected from the workspace)' },
+                stopAtTest: { type: 'boolean', description: 'Pause at the first line of the test (default: true). Set false to run until the first user breakpoint.' },
+                timeoutMs: {
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 600000,
+                    description: `How long to wait for the debugger to stop, in milliseconds (default: ${DEFAULT_TEST_TIMEOUT_MS})`
+                }
+            },
+            required: ['file']
+        },
+        effect: 'execute',
+        handler: (args, context) => debugStartTest(args, context.signal)
+    }
+];
+
+/**
+ * Start debugging a single test
+ */
+async function debugStartTest(args: {
+    file: string;
+    testName?: string;
+    framework?: TestFramework;
+    stopAtTest?: boolean;
+    timeoutMs?: number;
+}, signal?: AbortSignal): Promise<any> {
+    const { file, testName, timeoutMs = DEFAULT_TEST_TIMEOUT_MS } = args;
+    const stopAtTest = args.stopAtTest !== false && testName !== undefined;
+
+    if (!fs.existsSync(file)) {
+        return {
+            success: false,
+            error: `File not found: ${file}`,
+        };
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file)) ?? vscode.workspace.workspaceFolders?.[0];
+    const stopDir = workspaceFolder?.uri.fsPath ?? path.parse(file).root;
+
+    const detected = args.framework ? { framework: args.framework } : detectTestFramework(file, stopDir);
+    const framework = detected.framework;
+    if (!framework) {
+        return {
+            success: false,
+            error: detected.error ?? 'Could not detect the test framework. Please specify the "framework" parameter.',
+            supportedFrameworks: TEST_FRAMEWORKS,
+        };
+    }
+
+    let config: vscode.DebugConfiguration;
+    try {
+        config = buildTestConfig(framework, file, testName, stopDir);
+    } catch (error: any) {
+        return {
+            success: false,
+            error: error.message,
+        };
+    }
+
+    // Pause at the test with a temporary breakpoint on its first line
+    let entryBreakpoint: vscode.SourceBreakpoint | undefined;
+    if (stopAtTest) {
+        const entryLine = findTestEntryLine(file, framework, testName!);
+        if (entryLine !== null && !hasBreakpointAt(file, entryLine)) {
+            entryBreakpoint = new vscode.SourceBreakpoint(
+                new vscode.Location(vscode.Uri.file(file), new vscode.Position(entryLine, 0))
+            );
+            vscode.debug.addBreakpoints([entryBreakpoint]);
+        } else if (entryLine === null) {
+            logger.info(`[Tests] Could not find "${testName}" in ${file} - running to the first breakpoint`);
+        }
+    }
+
+    try {
+        const existingSessions = getSessionIds();
+        const started = await vscode.debug.startDebugging(workspaceFolder, config);
+        if (!started) {
+            return {
+                success: false,
+                error: 'Failed to start debug session',
+                framework,
+            };
+        }
+
+        const state = findStartedSession(existingSessions);
+        if (!state) {
+            return {
+                success: true,
+                framework,
+                testName: testName ?? null,
+                status: 'started',
+                isPaused: false,
+            };
+        }
+
+        // Test runners take a while to collect tests - wait for the first stop or the end of the run
+        const stopEvent = await state.waitForStop(timeoutMs, signal, { includeQueued: true });
+        await state.refreshPausedState();
+
+        return {
+            success: true,
+            framework,
+            testName: testName ?? null,
+            sessionId: state.sessionId,
+            status: 'started',
+            ...(stopEvent?.event === 'terminated' ? {
+                terminated: true,
+                hint: 'The test run finished without stopping. Check the test name, or set a breakpoint in the code under test.'
+            } : {}),
+            ...(stopEvent === null ? {
+                timedOut: true,
+                hint: 'The debugger did not stop before the timeout. Use debug_waitForStop to keep waiting.'
+            } : {}),
+            ...(stopEvent?.event === 'stopped' ? {
+                stopReason: stopEvent.body?.reason,
+                ...(stopEvent.sessionId !== state.sessionId ? { stoppedSessionId: stopEvent.sessionId } : {}),
+            } : {}),
+            currentFile: stopEvent?.body?.file ?? state.currentFile,
+            currentLine: stopEvent?.body?.line ?? state.currentLine,
+            currentFunction: stopEvent?.body?.function ?? state.currentFunction,
+            isPaused: stopEvent?.event === 'stopped' || state.isPaused,
+        };
+    } catch (error: any) {
+        return {
+            success: false,
+            error: `Error starting test: ${error.message}`,
+        };
+    } finally {
+        if (entryBreakpoint) {
+            vscode.debug.removeBreakpoints([entryBreakpoint]);
+        }
+    }
+}
+
+/**
+ * Detect the test framework of a file from its extension and the nearest project config.
+ * Without a framework, error says what is missing when the file type is known.
+ */
+function detectTestFramework(file: string, stopDir: string): { framework?: TestFramework; error?: string } {
+    const ext = path.extname(file).toLowerCase();
+    const fileDir = path.dirname(file);
+
+    if (ext === '.py') {
+        return usesPytest(fileDir, stopDir)
+            ? { framework: 'pytest' }
+            : { error: 'No pytest configuration found (pytest.ini, conftest.py, or pytest in pyproject.toml, setup.cfg, tox.ini or requirements.txt). Install pytest and configure it, or pass framework: "pytest" if it is installed.' };
+    }
+    if (ext === '.go') {
+        return findProjectRoot(fileDir, stopDir, ['go.mod'])
+            ? { framework: 'go' }
+            : { error: `No go.mod found for ${file}. go test needs a Go module: run "go mod init" in the project root.` };
+    }
+    if (!['.js', '.ts', '.mjs', '.cjs', '.jsx', '.tsx', '.mts', '.cts'].includes(ext)) {
+        return {};
+    }
+
+    const root = findProjectRoot(fileDir, stopDir, ['package.json']);
+    if (!root) {
+        return { error: `No package.json found for ${file}. Please specify the "framework" parameter.` };
+    }
+
+    for (const framework of ['vitest', 'jest', 'mocha'] as const) {
+        if (JS_FRAMEWORK_MARKERS[framework].some(marker => fs.existsSync(path.join(root, marker)))) {
+            return { framework };
+        }
+    }
+
+    // Fall back to the dependencies declared in package.json
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf-8'));
+        const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+        if (pkg.jest) {
+            return { framework: 'jest' };
+        }
+        for (const framework of ['vitest', 'jest', 'mocha'] as const) {
+            if (dependencies[framework]) {
+                return { framework };
+            }
+        }
+    } catch (error) {
+        logger.error('[Tests] Error reading package.json:', error);
+    }
+    return {};
+}
+
+/**
+ * Whether a pytest marker is found from the test's directory up to stopDir
+ */
+function usesPytest(startDir: string, stopDir: string): boolean {
+    const markerFiles = PYTEST_MARKERS.map(marker => marker.file);
+    let root = findProjectRoot(startDir, stopDir, markerFiles);
+    while (root) {
+        const dir = root;
+        const found = PYTEST_MARKERS.some(({ file, pattern }) => {
+            try {
+                return fs.existsSync(path.join(dir, file)) && (!pattern || pattern.test(fs.readFileSync(path.join(dir, file), 'utf-8')));
+            } catch {
+                return false;
+            }
+        });
+        if (found) {
+            return true;
+        }
+        // A requirements.txt or pyproject.toml without pytest - keep looking further up
+        root = dir === stopDir || path.dirname(dir) === dir ? null : findProjectRoot(path.dirname(dir), stopDir, markerFiles);
+    }
+    return false;
+}
+
+/**
+ * Build the launch configuration that runs one test under the debugger
+ */
+function buildTestConfig(framework: TestFramework, file: string, testName: string | undefined, stopDir: string): vscode.DebugConfiguration {
+    const fileDir = path.dirname(file);
+    const name = `Debug Test: ${testName ?? path.basename(file)}`;
+
+    switch (framework) {
+        case 'pytest': {
+            const root = findProjectRoot(fileDir, stopDir, ['pytest.ini', 'pyproject.toml', 'setup.cfg', 'tox.ini', 'conftest.py']) ?? stopDir;
+            return {
+                type: 'debugpy',
+                request: 'launch',
+                name,
+                module: 'pytest',
+                args: [toPytestNodeId(file, testName), '--no-header', '-p', 'no:cacheprovider'],
+                cwd: root,
+                // Test output is captured for debug_getOutput
+                console: 'internalConsole',
+                justMyCode: false,
+            };
+        }
+
+        case 'go': {
+            return {
+                type: 'go',
+                request: 'launch',
+                name,
+                mode: 'test',
+                program: fileDir,
+                args: testName ? ['-test.run', `^${escapeRegExp(testName)}$`] : [],
+            };
+        }
+
+        case 'jest':
+        case 'vitest':
+        case 'mocha': {
+            const root = findProjectRoot(fileDir, stopDir, ['package.json']) ?? stopDir;
+            const program = findRunnerProgram(framework, root, stopDir);
+            if (!program) {
+                throw new Error(`Could not find ${framework} in node_modules. Install dependencies first (e.g. npm install).`);
+            }
+
+            // Runners match against the full name with suites joined by spaces: "suite > logs in" -> "suite logs in"
+            const pattern = testName ? escapeRegExp(testName.split(' > ').join(' ')) : undefined;
+            const runnerArgs: Record<typeof framework, string[]> = {
+                jest: ['--runInBand', '--no-coverage', file, ...(pattern ? ['--testNamePattern', pattern] : [])],
+                vitest: ['run', file, '--no-file-parallelism', ...(pattern ? ['--testNamePattern', pattern] : [])],
+                mocha: ['--no-timeouts', file, ...(pattern ? ['--grep', pattern] : [])]
+            };
+
+            return {
+                type: 'node',
+                request: 'launch',
+                name,
+                program,
+                args: runnerArgs[framework],
+                cwd: root,
+                console: 'internalConsole',
+                outputCapture: 'std',
+                autoAttachChildProcesses: true,
+                skipFiles: ['<node_internals>/**'],
+            };
+        }
+    }
+}
+
+/**
+ * pytest node id for a test: "file::Class::test" (accepts a full node id as well)
+ */
+function toPytestNodeId(file: string, testName: string | undefined): string {
+    if (!testName) {
+        return file;
+    }
+    if (testName.includes('.py::')) {
+        return testName;
+    }
+    return `${file}::${testName}`;
+}
+
+/**
+ * 0-based line of the first statement inside a test, or null if the test can't be found
+ */
+function findTestEntryLine(file: string, framework: TestFramework, testName: string): number | null {
+    let lines: string[];
+    try {
+        lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+    } catch {
+        return null;
+    }
+
+    // "TestClass::test_x[param]" -> "test_x"; "suite > logs in" -> "logs in"
+    const name = framework === 'pytest'
+        ? testName.split('::').pop()!.replace(/\[.*\]$/, '')
+        : testName.split(' > ').pop()!;
+    const escaped = escapeRegExp(name);
+
+    const declaration = {
+        pytest: new RegExp(`^\\s*(async\\s+)?def\\s+${escaped}\\s*\\(`),
+        go: new RegExp(`^func\\s+${escaped}\\s*\\(`),
+        jest: new RegExp(`\\b(it|test|specify)(\\.\\w+)*\\s*\\(\\s*(['"\`])${escaped}\\3`),
+        vitest: new RegExp(`\\b(it|test|specify)(\\.\\w+)*\\s*\\(\\s*(['"\`])${escaped}\\3`),
+        mocha: new RegExp(`\\b(it|test|specify)(\\.\\w+)*\\s*\\(\\s*(['"\`])${escaped}\\3`)
+    }[framework];
+
+    const declarationLine = lines.findIndex(line => declaration.test(line));
+    if (declarationLine === -1) {
+        return null;
+    }
+
+    // Python signatures can span lines - the body starts after the line ending with ':'
+    let bodyStart = declarationLine + 1;
+    if (framework === 'pytest') {
+        const signatureEnd = lines.findIndex((line, index) => index >= declarationLine && /:\s*(#.*)?$/.test(line));
+        bodyStart = signatureEnd === -1 ? declarationLine + 1 : signatureEnd + 1;
+    }
+
+    for (let index = bodyStart; index < lines.length; index++) {
+        if (lines[index].trim() !== '') {
+            return index;
+        }
+    }
+    return null;
+}
+
+function hasBreakpointAt(file: string, line: number): boolean {
+    return vscode.debug.breakpoints.some(bp =>
+        bp instanceof vscode.SourceBreakpoint &&
+        bp.location.uri.fsPath === file &&
+        bp.location.range.start.line === line
+    );
+}
+
+/**
+ * Nearest directory from startDir up to stopDir containing one of the marker files
+ */
+function findProjectRoot(startDir: string, stopDir: string, markers: string[]): string | null {
+    let dir = startDir;
+    while (true) {
+        if (markers.some(marker => fs.existsSync(path.join(dir, marker)))) {
+            return dir;
+        }
+        const parent = path.dirname(dir);
+        if (dir === stopDir || parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Runner entry script, looked up in node_modules from the project root upwards (hoisted monorepos)
+ */
+function findRunnerProgram(framework: 'jest' | 'vitest' | 'mocha', root: string, stopDir: string): string | null {
+    let dir = root;
+    while (true) {
+        for (const program of JS_RUNNER_PROGRAMS[framework]) {
+            const candidate = path.join(dir, 'node_modules', program);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+        const parent = path.dirname(dir);
+        if (dir === stopDir || parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OutputBuffer } from '../src/output-buffer';
+
+describe('OutputBuffer', () => {
+    it('returns output after a cursor', () => {
+        const buffer = new OutputBuffer('s1');
+        const first = buffer.append('stdout', 'one\n');
+        buffer.append('stderr', 'two\n');
+        buffer.append('stdout', 'three\n');
+
+        assert.deepEqual(buffer.query({ since: first.seq }).map(entry => entry.output), ['two\n', 'three\n']);
+        assert.deepEqual(buffer.query({ categories: ['stdout'] }).map(entry => entry.output), ['one\n', 'three\n']);
+        assert.deepEqual(buffer.query({ pattern: /^t/ }).map(entry => entry.output), ['two\n', 'three\n']);
+        assert.equal(buffer.getLastSeq(), first.seq + 2);
+    });
+
+    it('keeps cursors valid across buffers', () => {
+        const a = new OutputBuffer('a');
+        const b = new OutputBuffer('b');
+        const fromA = a.append('stdout', 'a\n');
+        const fromB = b.append('stdout', 'b\n');
+
+        assert.ok(fromB.seq > fromA.seq);
+        assert.deepEqual(a.query({ since: fromB.seq }), []);
+    });
+
+    it('drops the oldest entries when full and reports it to older cursors', () => {
+        const buffer = new OutputBuffer('s1');
+        const chunk = 'x'.repeat(OutputBuffer.MAX_CHARS / 2);
+        const first = buffer.append('stdout', chunk);
+        const second = buffer.append('stdout', chunk);
+        const third = buffer.append('stdout', chunk);
+
+        assert.deepEqual(buffer.query().map(entry => entry.seq), [second.seq, third.seq]);
+        assert.equal(buffer.hasDroppedSince(first.seq - 1), true);
+        assert.equal(buffer.hasDroppedSince(first.seq), false);
+        // A cursor from before the drop reads on from the oldest entry left
+        assert.deepEqual(buffer.query({ since: first.seq - 1 }).map(entry => entry.seq), [second.seq, third.seq]);
+        assert.equal(buffer.getLastSeq(), third.seq);
+    });
+
+    it('keeps a single entry larger than the buffer', () => {
+        const buffer = new OutputBuffer('s1');
+        const entry = buffer.append('stdout', 'x'.repeat(OutputBuffer.MAX_CHARS + 1));
+        assert.deepEqual(buffer.query().map(e => e.seq), [entry.seq]);
+    });
+
+    it('is bounded by the number of entries', () => {
+        const buffer = new OutputBuffer('s1');
+        let last = 0;
+        for (let i = 0; i <= OutputBuffer.MAX_ENTRIES; i++) {
+            last = buffer.append('stdout', '.').seq;
+        }
+        const entries = buffer.query();
+        assert.equal(entries.length, OutputBuffer.MAX_ENTRIES);
+        assert.equal(entries[entries.length - 1].seq, last);
+        assert.equal(buffer.hasDroppedSince(entries[0].seq - 2), true);
+    });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { inferPathMappings } from '../src/path-mappings';
+
+describe('inferPathMappings', () => {
+    let workspace: string;
+
+    const write = (file: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(workspace, file)), { recursive: true });
+        fs.writeFileSync(path.join(workspace, file), content);
+    };
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'killer-bug-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('uses the bind mounts of the compose service publishing the port', () => {
+        write('docker-compose.yml', [
+            'services:',
+            '  api:',
+            '    build: ./backend',
+            '    ports:',
+            '      - "5678:5678"',
+            '    volumes:',
+            '      - ./backend/src:/code/src:ro',
+            '      - data:/var/lib/data',
+            '  web:',
+            '    image: node:20',
+            '    ports:',
+            '      - 9229:9229',
+            '    volumes:',
+            '      - type: bind',
+            '        source: ./frontend',
+            '        target: /app',
+            'volumes:',
+            '  data:',
+            ''
+        ].join('\n'));
+
+        assert.deepEqual(inferPathMappings(workspace, 5678, true), {
+            pathMappings: [{ localRoot: path.join(workspace, 'backend/src'), remoteRoot: '/code/src' }],
+            source: 'docker-compose.yml (service "api")'
+        });
+        assert.deepEqual(inferPathMappings(workspace, 9229, false)?.pathMappings, [
+            { localRoot: path.join(workspace, 'frontend'), remoteRoot: '/app' }
+        ]);
+    });
+
+    it('falls back to the Dockerfile of a compose service without bind mounts', () => {
+        write('compose.yaml', 'services:\n  api:\n    build:\n      context: ./api\n    ports:\n      - "5678:5678"\n');
+        write('api/Dockerfile', 'FROM python:3.12\nWORKDIR /srv\nCOPY . .\n');
+
+        assert.deepEqual(inferPathMappings(workspace, 5678, true)?.pathMappings, [
+            { localRoot: path.join(workspace, 'api'), remoteRoot: '/srv' }
+        ]);
+    });
+
+    it('infers nothing for a port a host process listens on, unless compose publishes it', () => {
+        write('Dockerfile', 'FROM node:20\nWORKDIR /app\nCOPY . .\n');
+        write('docker-compose.yml', 'services:\n  api:\n    volumes:\n      - .:/app\n');
+
+        assert.equal(inferPathMappings(workspace, 9229, true), null);
+        assert.deepEqual(inferPathMappings(workspace, 9229, false), {
+            pathMappings: [{ localRoot: workspace, remoteRoot: '/app' }],
+            source: 'docker-compose.yml (service "api")'
+        });
+    });
+
+    it('reads where the Dockerfile copies the code', () => {
+        write('Dockerfile', [
+            'FROM node:20 AS build',
+            'WORKDIR /build',
+            'COPY . .',
+            'FROM node:20-slim',
+            'WORKDIR /app',
+            'COPY src ./src',
+            'COPY package.json ./',
+            ''
+        ].join('\n'));
+        write('src/index.js', '');
+        write('package.json', '{}');
+
+        assert.deepEqual(inferPathMappings(workspace, 9229, false), {
+            pathMappings: [{ localRoot: path.join(workspace, 'src'), remoteRoot: '/app/src' }],
+            source: 'Dockerfile'
+        });
+    });
+
+    it('reads the workspace folder from devcontainer.json with comments', () => {
+        write('.devcontainer/devcontainer.json', [
+            '{',
+            '  // Comments and trailing commas are allowed',
+            '  "image": "mcr.microsoft.com/devcontainers/python:3.12",',
+            '  "workspaceFolder": "/workspaces/${localWorkspaceFolderBasename}/app",',
+            '}',
+            ''
+        ].join('\n'));
+
+        assert.deepEqual(inferPathMappings(workspace, undefined, false), {
+            pathMappings: [{ localRoot: workspace, remoteRoot: `/workspaces/${path.basename(workspace)}/app` }],
+            source: path.join('.devcontainer', 'devcontainer.json')
+        });
+    });
+
+    it('returns null without a container setup', () => {
+        assert.equal(inferPathMappings(workspace, 5678, false), null);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JSONSchema, validateArguments } from '../src/tools/schema-validation';
+
+const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+        file: { type: 'string' },
+        line: { type: 'integer', minimum: 1 },
+        mode: { type: 'string', enum: ['run', 'step'] },
+        args: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['file', 'line'],
+    additionalProperties: false
+};
+
+describe('validateArguments', () => {
+    it('accepts valid arguments', () => {
+        assert.deepEqual(validateArguments(schema, { file: '/a.py', line: 3, mode: 'step', args: ['-v'] }), []);
+    });
+
+    it('reports missing required fields', () => {
+        assert.deepEqual(validateArguments(schema, { file: '/a.py' }), [
+            { path: 'line', message: 'is required' }
+        ]);
+    });
+
+    it('reports type mismatches', () => {
+        assert.deepEqual(validateArguments(schema, { file: 42, line: 1.5 }), [
+            { path: 'file', message: 'must be a string, got number' },
+            { path: 'line', message: 'must be an integer, got number' }
+        ]);
+    });
+
+    it('rejects a non-object argument list', () => {
+        assert.deepEqual(validateArguments(schema, null), [
+            { path: 'arguments', message: 'must be an object, got null' }
+        ]);
+    });
+
+    it('checks enums, minimums and array items', () => {
+        assert.deepEqual(validateArguments(schema, { file: '/a.py', line: 0, mode: 'jump', args: ['-v', 2] }), [
+            { path: 'line', message: 'must be >= 1' },
+            { path: 'mode', message: 'must be one of: "run", "step"' },
+            { path: 'args[1]', message: 'must be a string, got number' }
+        ]);
+    });
+
+    it('rejects unknown properties when additionalProperties is false', () => {
+        assert.deepEqual(validateArguments(schema, { file: '/a.py', line: 1, colum: 4 }), [
+            { path: 'colum', message: 'is not a known parameter' }
+        ]);
+    });
+
+    it('validates additional properties against their schema', () => {
+        const env: JSONSchema = { type: 'object', additionalProperties: { type: 'string' } };
+        assert.deepEqual(validateArguments(env, { PATH: '/bin', DEBUG: true }), [
+            { path: 'DEBUG', message: 'must be a string, got boolean' }
+        ]);
+        assert.deepEqual(validateArguments({ type: 'object' }, { anything: 1 }), []);
+    });
+});
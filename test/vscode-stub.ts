@@ -0,0 +1,6 @@
+/**
+ * Stand-in for the 'vscode' module in unit tests - only what modules touch when they load
+ */
+export const debug = { breakpoints: [] };
+export const workspace = { workspaceFolders: undefined };
+export class SourceBreakpoint {}